@@ -0,0 +1,317 @@
+import { describe, it, expect, vi } from 'vitest';
+import { IAsyncDB, IndexedDBStorage, MirroredDB } from '../async-db';
+import { cache, disposeCache } from '../cache';
+import { extendedJsonCodec } from '../codec';
+
+/** Async database with manually resolved reads */
+const createDeferredBackend = (initial: Record<string, unknown> = {}) => {
+  const values = new Map(Object.entries(initial));
+  const pendingReads: (() => void)[] = [];
+  const backend: IAsyncDB = {
+    get: vi.fn((key: string) => new Promise<any>(resolve => {
+      pendingReads.push(() => resolve(values.get(key) ?? null));
+    })),
+    set: vi.fn(async (key: string, value: unknown) => {
+      values.set(key, value);
+    }),
+    remove: vi.fn(async (key: string) => {
+      values.delete(key);
+    }),
+  };
+  const resolveReads = async () => {
+    pendingReads.splice(0).forEach(resolve => resolve());
+    await new Promise(resolve => setTimeout(resolve, 0));
+  };
+
+  return { values, backend, resolveReads };
+};
+
+/** Minimal in-memory implementation of IndexedDB, enough for IndexedDBStorage */
+const createFakeIndexedDB = () => {
+  const databases = new Map<string, Map<string, Map<unknown, unknown>>>();
+  const request = <T>(run: () => T) => {
+    const result: any = {};
+    setTimeout(() => {
+      result.result = run();
+      result.onsuccess?.();
+    });
+    return result as IDBRequest<T>;
+  };
+
+  const factory = {
+    open: (name: string) => {
+      const openRequest: any = {};
+      setTimeout(() => {
+        const isNew = !databases.has(name);
+        const stores = databases.get(name) ?? new Map<string, Map<unknown, unknown>>();
+        databases.set(name, stores);
+        openRequest.result = {
+          createObjectStore: (storeName: string) => stores.set(storeName, new Map()),
+          transaction: (storeName: string) => ({
+            objectStore: () => {
+              const store = stores.get(storeName)!;
+              return {
+                get: (key: unknown) => request(() => structuredClone(store.get(key))),
+                put: (value: unknown, key: unknown) => request(() => store.set(key, structuredClone(value))),
+                delete: (key: unknown) => request(() => store.delete(key)),
+              };
+            },
+          }),
+        };
+        if (isNew) {
+          openRequest.onupgradeneeded?.();
+        }
+        openRequest.onsuccess?.();
+      });
+      return openRequest;
+    },
+  };
+
+  return { databases, factory: factory as unknown as IDBFactory };
+};
+
+describe('MirroredDB', () => {
+  it('should serve reads from mirror after key is loaded', async () => {
+    const { backend, resolveReads } = createDeferredBackend({ key: { value: 1 } });
+    const db = new MirroredDB(backend);
+
+    const loading = db.load('key');
+    expect(db.get('key')).toBeNull();
+    await resolveReads();
+    await loading;
+
+    expect(db.get('key')).toEqual({ value: 1 });
+    expect(backend.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should load every key only once', () => {
+    const { backend } = createDeferredBackend();
+    const db = new MirroredDB(backend);
+
+    expect(db.load('key')).toBe(db.load('key'));
+    expect(backend.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should expose hydration state', async () => {
+    const { backend, resolveReads } = createDeferredBackend({ a: 1 });
+    const db = new MirroredDB(backend, { preload: ['a', 'b'] });
+
+    expect(db.hydrated).toBe(false);
+    expect(db.isLoaded('a')).toBe(false);
+    await resolveReads();
+    await db.ready;
+
+    expect(db.hydrated).toBe(true);
+    expect(db.isLoaded('a')).toBe(true);
+    expect(db.get('a')).toBe(1);
+    expect(db.get('b')).toBeNull();
+  });
+
+  it('should write to backend in the background', async () => {
+    const { values, backend } = createDeferredBackend();
+    const db = new MirroredDB(backend);
+
+    db.set('key', { value: 1 });
+    expect(db.get('key')).toEqual({ value: 1 });
+    await db.flush();
+
+    expect(values.get('key')).toEqual({ value: 1 });
+  });
+
+  it('should pass writes to backend in order', async () => {
+    const { values, backend } = createDeferredBackend();
+    const db = new MirroredDB(backend);
+
+    db.set('key', 1);
+    db.remove('key');
+    db.set('key', 2);
+    await db.flush();
+
+    expect(values.get('key')).toBe(2);
+    expect(backend.remove).toHaveBeenCalledWith('key');
+  });
+
+  it('should keep values written before load is completed', async () => {
+    const { backend, resolveReads } = createDeferredBackend({ key: 'stored' });
+    const db = new MirroredDB(backend);
+
+    const loading = db.load('key');
+    db.set('key', 'local');
+    await resolveReads();
+    await loading;
+
+    expect(db.get('key')).toBe('local');
+  });
+
+  it('should pass writes to backend after key is loaded', async () => {
+    const { values, backend, resolveReads } = createDeferredBackend({ key: 'stored' });
+    const db = new MirroredDB(backend);
+
+    db.load('key');
+    db.set('key', 'local');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(values.get('key')).toBe('stored');
+
+    await resolveReads();
+    await db.flush();
+    expect(values.get('key')).toBe('local');
+  });
+
+  it('should revert values written before load to loaded ones', async () => {
+    const { values, backend, resolveReads } = createDeferredBackend({ key: 'stored' });
+    const db = new MirroredDB(backend);
+
+    const reverting = db.load('key').then(() => db.revertToLoaded('key'));
+    db.set('key', 'local');
+    await resolveReads();
+
+    expect(await reverting).toBe(true);
+    expect(db.get('key')).toBe('stored');
+    expect(db.revertToLoaded('key')).toBe(false);
+    await db.flush();
+    expect(values.get('key')).toBe('stored');
+    expect(backend.set).not.toHaveBeenCalled();
+  });
+
+  it('should report failed operations', async () => {
+    const error = new Error('backend failure');
+    const backend: IAsyncDB = {
+      get: () => Promise.reject(error),
+      set: () => Promise.reject(error),
+    };
+    const onError = vi.fn();
+    const db = new MirroredDB(backend, { onError });
+
+    await db.load('a');
+    db.set('b', 1);
+    await db.flush();
+
+    expect(db.isLoaded('a')).toBe(true);
+    expect(onError).toHaveBeenCalledWith(error, 'a');
+    expect(onError).toHaveBeenCalledWith(error, 'b');
+  });
+
+  it('should use given codec for mirror', () => {
+    const { backend } = createDeferredBackend();
+    const db = new MirroredDB(backend, { codec: extendedJsonCodec });
+
+    db.set('key', new Date(0));
+
+    expect(db.get('key')).toEqual(new Date(0));
+  });
+});
+
+describe('IndexedDBStorage', () => {
+  it('should round-trip values', async () => {
+    const { factory } = createFakeIndexedDB();
+    const storage = new IndexedDBStorage({ factory });
+
+    await storage.set('key', { at: new Date(0), tags: new Set(['a']) });
+
+    expect(await storage.get('key')).toEqual({ at: new Date(0), tags: new Set(['a']) });
+    expect(await storage.get('missing')).toBeNull();
+  });
+
+  it('should remove values', async () => {
+    const { factory } = createFakeIndexedDB();
+    const storage = new IndexedDBStorage({ factory });
+    await storage.set('key', 1);
+
+    await storage.remove('key');
+
+    expect(await storage.get('key')).toBeNull();
+  });
+
+  it('should use given database and store names', async () => {
+    const { databases, factory } = createFakeIndexedDB();
+    const storage = new IndexedDBStorage({ factory, databaseName: 'app', storeName: 'state' });
+
+    await storage.set('key', 1);
+
+    expect(databases.get('app')?.get('state')?.get('key')).toBe(1);
+  });
+});
+
+describe('cache with MirroredDB', () => {
+  it('should update state when data is loaded', async () => {
+    const { backend, resolveReads } = createDeferredBackend({ 'valtio/v1.0/editor': { text: 'stored' } });
+    const db = new MirroredDB(backend);
+
+    const editor = cache({ key: 'editor', db }, { text: '' });
+    expect(editor.text).toBe('');
+    await resolveReads();
+    await db.ready;
+
+    expect(editor.text).toBe('stored');
+    expect(backend.set).not.toHaveBeenCalled();
+  });
+
+  it('should use mirrored data of already loaded key', async () => {
+    const { backend, resolveReads } = createDeferredBackend({ 'valtio/v1.0/editor': { text: 'stored' } });
+    const db = new MirroredDB(backend, { preload: ['valtio/v1.0/editor'] });
+    await resolveReads();
+    await db.ready;
+
+    expect(cache({ key: 'editor', db }, { text: '' }).text).toBe('stored');
+  });
+
+  it('should persist changes to backend', async () => {
+    const { values, backend, resolveReads } = createDeferredBackend();
+    const db = new MirroredDB(backend);
+
+    const editor = cache({ key: 'editor', db }, { text: '' });
+    await resolveReads();
+    editor.text = 'changed';
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await db.flush();
+
+    expect(values.get('valtio/v1.0/editor')).toEqual({ text: 'changed' });
+  });
+
+  it('should keep fields changed before data is loaded', async () => {
+    const { values, backend, resolveReads } = createDeferredBackend({
+      'valtio/v1.0/editor': { blocks: ['a', 'b', 'c'], title: 'saved' },
+    });
+    const db = new MirroredDB(backend);
+
+    const editor = cache({ key: 'editor', db }, { blocks: [] as string[], title: '', isLoading: false });
+    editor.isLoading = true;
+    await resolveReads();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await db.flush();
+
+    const expected = { blocks: ['a', 'b', 'c'], title: 'saved', isLoading: true };
+    expect(editor).toEqual(expected);
+    expect(values.get('valtio/v1.0/editor')).toEqual(expected);
+  });
+
+  it('should prefer changes made before load over loaded fields', async () => {
+    const { values, backend, resolveReads } = createDeferredBackend({
+      'valtio/v1.0/editor': { blocks: ['a', 'b', 'c'], title: 'saved' },
+    });
+    const db = new MirroredDB(backend);
+
+    const editor = cache({ key: 'editor', db }, { blocks: [] as string[], title: '' });
+    editor.title = 'local';
+    editor.blocks.push('d');
+    await resolveReads();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await db.flush();
+
+    const expected = { blocks: ['d'], title: 'local' };
+    expect(editor).toEqual(expected);
+    expect(values.get('valtio/v1.0/editor')).toEqual(expected);
+  });
+
+  it('should not update disposed state', async () => {
+    const { backend, resolveReads } = createDeferredBackend({ 'valtio/v1.0/editor': { text: 'stored' } });
+    const db = new MirroredDB(backend);
+
+    const editor = cache({ key: 'editor', db }, { text: '' });
+    disposeCache(editor);
+    await resolveReads();
+    await db.ready;
+
+    expect(editor.text).toBe('');
+  });
+});
@@ -1,7 +1,23 @@
 import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest';
 import { proxy, subscribe } from 'valtio';
-import { cache, cacheFactory, type CacheOptions } from '../cache';
-import type { ISyncDB } from '../sync-db';
+import { proxyMap, proxySet } from 'valtio/utils';
+import { cache, cacheFactory, clearCaches, disposeCache, getCacheController, resetCache, QUARANTINE_SUFFIX, type CacheOptions, type MergeContext } from '../cache';
+import { CipherDB, createStreamCipher } from '../cipher';
+import { CorruptedEntryError, ValidationError } from '../errors';
+import { LocalStorageDB, MemoryDB, type ISyncDB } from '../sync-db';
+import { MemoryChannel } from '../sync-transport';
+import { extendedJsonCodec } from '../codec';
+import { lzCompressor } from '../compression';
+import { debounceWrites } from '../write-strategy';
+
+const createFakeStorage = (initial: Record<string, string> = {}) => {
+  const storage: Record<string, string> = { ...initial };
+  return {
+    getItem: (key: string) => storage[key] ?? null,
+    setItem: (key: string, value: string) => { storage[key] = value; },
+    removeItem: (key: string) => { delete storage[key]; },
+  } as unknown as Storage;
+};
 
 describe('cache', () => {
   let mockDb: ISyncDB;
@@ -514,7 +530,7 @@ describe('cache', () => {
       const result = cache(options, initialState);
 
       expect(mockSubscribeFunction).toHaveBeenCalledTimes(1);
-      expect(mockSubscribeFunction).toHaveBeenCalledWith(result, expect.any(Function));
+      expect(mockSubscribeFunction).toHaveBeenCalledWith(result, expect.any(Function), true);
 
       // Trigger state change to verify subscribe is working
       result.count = 5;
@@ -594,7 +610,7 @@ describe('cache', () => {
       const result = cache(options, initialState);
 
       expect(mockProxyFunction).toHaveBeenCalledWith(initialState);
-      expect(mockSubscribeFunction).toHaveBeenCalledWith(result, expect.any(Function));
+      expect(mockSubscribeFunction).toHaveBeenCalledWith(result, expect.any(Function), true);
 
       result.value = 'updated';
       await new Promise(resolve => setTimeout(resolve, 10));
@@ -650,7 +666,7 @@ describe('cache', () => {
       const result = cache(options, initialState);
 
       expect(subscribeCallback).not.toBeNull();
-      expect(mockSubscribeFunction).toHaveBeenCalledWith(result, expect.any(Function));
+      expect(mockSubscribeFunction).toHaveBeenCalledWith(result, expect.any(Function), true);
 
       result.counter = 99;
       await new Promise(resolve => setTimeout(resolve, 10));
@@ -658,6 +674,1418 @@ describe('cache', () => {
       expect(mockSet).toHaveBeenCalledWith('valtio/v1.0/trigger-test', { counter: 99 });
     });
   });
+
+  describe('versioning', () => {
+    it('should store data with version when version is set', async () => {
+      const result = cache({ key: 'versioned', db: mockDb, version: 2 }, { count: 0 });
+
+      result.count = 1;
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(mockSet).toHaveBeenCalledWith('valtio/v1.0/versioned', {
+        __valtioCache: { version: 2 },
+        data: { count: 1 },
+      });
+    });
+
+    it('should restore data of the same version without migrations', () => {
+      mockGet.mockReturnValue({ __valtioCache: { version: 2 }, data: { count: 5 } });
+      const migration = vi.fn();
+
+      const result = cache({ key: 'versioned', db: mockDb, version: 2, migrate: { 2: migration } }, { count: 0 });
+
+      expect(result.count).toBe(5);
+      expect(migration).not.toHaveBeenCalled();
+      expect(mockSet).not.toHaveBeenCalled();
+    });
+
+    it('should run chain of migrations for older data', () => {
+      mockGet.mockReturnValue({ __valtioCache: { version: 1 }, data: { name: 'John' } });
+
+      const result = cache({
+        key: 'versioned',
+        db: mockDb,
+        version: 3,
+        migrate: {
+          2: ({ name }: any) => ({ user: { name } }),
+          3: (data: any) => ({ ...data, user: { ...data.user, fullName: data.user.name } }),
+        },
+      }, { user: { name: '', fullName: '' }, theme: 'light' });
+
+      expect(result.user).toEqual({ name: 'John', fullName: 'John' });
+      expect(result.theme).toBe('light');
+    });
+
+    it('should save migrated data immediately', () => {
+      mockGet.mockReturnValue({ __valtioCache: { version: 1 }, data: { name: 'John' } });
+
+      cache({
+        key: 'versioned',
+        db: mockDb,
+        version: 2,
+        migrate: { 2: ({ name }: any) => ({ userName: name }) },
+      }, { userName: '' });
+
+      expect(mockSet).toHaveBeenCalledWith('valtio/v1.0/versioned', {
+        __valtioCache: { version: 2 },
+        data: { userName: 'John' },
+      });
+    });
+
+    it('should treat data stored without version as version 0', () => {
+      mockGet.mockReturnValue({ name: 'John' });
+      const first = vi.fn((data: any) => ({ userName: data.name }));
+
+      const result = cache({ key: 'legacy', db: mockDb, version: 1, migrate: { 1: first } }, { userName: '' });
+
+      expect(first).toHaveBeenCalledWith({ name: 'John' });
+      expect(result.userName).toBe('John');
+    });
+
+    it('should ignore data of newer version', () => {
+      mockGet.mockReturnValue({ __valtioCache: { version: 5 }, data: { count: 5 } });
+
+      const result = cache({ key: 'versioned', db: mockDb, version: 2 }, { count: 0 });
+
+      expect(result.count).toBe(0);
+    });
+
+    it('should unwrap versioned data when version option is not set', () => {
+      mockGet.mockReturnValue({ __valtioCache: { version: 3 }, data: { count: 5 } });
+
+      const result = cache({ key: 'versioned', db: mockDb }, { count: 0 });
+
+      expect(result.count).toBe(5);
+    });
+
+    it('should not run migrations when nothing is stored', () => {
+      const migration = vi.fn();
+
+      const result = cache({ key: 'versioned', db: mockDb, version: 2, migrate: { 1: migration } }, { count: 0 });
+
+      expect(result.count).toBe(0);
+      expect(migration).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncTabs option', () => {
+    let fakeWindow: EventTarget;
+
+    const dispatchStorage = (key: string | null) => {
+      const event = Object.assign(new Event('storage'), { key });
+      fakeWindow.dispatchEvent(event);
+    };
+
+    beforeEach(() => {
+      fakeWindow = new EventTarget();
+      vi.stubGlobal('window', fakeWindow);
+      return () => vi.unstubAllGlobals();
+    });
+
+    it('should merge changes made by other tabs', () => {
+      const result = cache({ key: 'settings', db: mockDb, syncTabs: true }, { theme: 'light', language: 'en' });
+
+      mockGet.mockReturnValue({ theme: 'dark', language: 'en' });
+      dispatchStorage('valtio/v1.0/settings');
+
+      expect(result.theme).toBe('dark');
+      expect(result.language).toBe('en');
+    });
+
+    it('should ignore changes of other keys', () => {
+      const result = cache({ key: 'settings', db: mockDb, syncTabs: true }, { theme: 'light' });
+
+      mockGet.mockReturnValue({ theme: 'dark' });
+      dispatchStorage('valtio/v1.0/other');
+
+      expect(result.theme).toBe('light');
+    });
+
+    it('should not write merged changes back to storage', async () => {
+      const result = cache({ key: 'settings', db: mockDb, syncTabs: true }, { theme: 'light' });
+
+      mockGet.mockReturnValue({ theme: 'dark' });
+      dispatchStorage('valtio/v1.0/settings');
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(result.theme).toBe('dark');
+      expect(mockSet).not.toHaveBeenCalled();
+
+      result.theme = 'blue';
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(mockSet).toHaveBeenCalledTimes(1);
+      expect(mockSet).toHaveBeenCalledWith('valtio/v1.0/settings', { theme: 'blue' });
+    });
+
+    it('should write changes made in the same tick as merged changes', async () => {
+      const result = cache({ key: 'settings', db: mockDb, syncTabs: true }, { theme: 'light', language: 'en' });
+
+      result.language = 'de';
+      mockGet.mockReturnValue({ theme: 'dark', language: 'en' });
+      dispatchStorage('valtio/v1.0/settings');
+      result.language = 'fr';
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(result).toEqual({ theme: 'dark', language: 'fr' });
+      expect(mockSet).toHaveBeenCalledTimes(1);
+      expect(mockSet).toHaveBeenCalledWith('valtio/v1.0/settings', { theme: 'dark', language: 'fr' });
+    });
+
+    it('should migrate changes written by older version', () => {
+      const result = cache({
+        key: 'settings',
+        db: mockDb,
+        syncTabs: true,
+        version: 1,
+        migrate: { 1: ({ dark }: any) => ({ theme: dark ? 'dark' : 'light' }) },
+      }, { theme: 'light' });
+
+      mockGet.mockReturnValue({ dark: true });
+      dispatchStorage('valtio/v1.0/settings');
+
+      expect(result.theme).toBe('dark');
+    });
+
+    it('should ignore cleared storage', () => {
+      const result = cache({ key: 'settings', db: mockDb, syncTabs: true }, { theme: 'light' });
+
+      dispatchStorage(null);
+
+      expect(result.theme).toBe('light');
+    });
+
+    it('should not listen for storage changes by default', () => {
+      const result = cache({ key: 'settings', db: mockDb }, { theme: 'light' });
+
+      mockGet.mockReturnValue({ theme: 'dark' });
+      dispatchStorage('valtio/v1.0/settings');
+
+      expect(result.theme).toBe('light');
+    });
+
+    it('should stop listening once state is disposed', () => {
+      const result = cache({ key: 'settings', db: mockDb, syncTabs: true }, { theme: 'light' });
+
+      disposeCache(result);
+      mockGet.mockReturnValue({ theme: 'dark' });
+      dispatchStorage('valtio/v1.0/settings');
+
+      expect(result.theme).toBe('light');
+    });
+  });
+
+  describe('disposeCache', () => {
+    it('should stop persisting state changes', async () => {
+      const result = cache({ key: 'dispose-test', db: mockDb }, { count: 0 });
+
+      disposeCache(result);
+      result.count = 1;
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(result.count).toBe(1);
+      expect(mockSet).not.toHaveBeenCalled();
+    });
+
+    it('should ignore proxies not created by cache', () => {
+      expect(() => disposeCache(proxy({ count: 0 }))).not.toThrow();
+    });
+
+    it('should be safe to call multiple times', () => {
+      const result = cache({ key: 'dispose-test', db: mockDb }, { count: 0 });
+
+      disposeCache(result);
+      expect(() => disposeCache(result)).not.toThrow();
+    });
+  });
+
+  describe('getCacheController', () => {
+    it('should return undefined for proxies not created by cache', () => {
+      expect(getCacheController(proxy({ count: 0 }))).toBeUndefined();
+    });
+
+    it('should not persist changes while paused', async () => {
+      const result = cache({ key: 'controller-test', db: mockDb }, { count: 0 });
+      const controller = getCacheController(result)!;
+
+      controller.pause();
+      result.count = 1;
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(controller.isPaused).toBe(true);
+      expect(mockSet).not.toHaveBeenCalled();
+    });
+
+    it('should write changes made while paused on resume', async () => {
+      const result = cache({ key: 'controller-test', db: mockDb }, { count: 0 });
+      const controller = getCacheController(result)!;
+      controller.pause();
+      result.count = 1;
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      controller.resume();
+
+      expect(controller.isPaused).toBe(false);
+      expect(mockSet).toHaveBeenCalledTimes(1);
+      expect(mockSet).toHaveBeenCalledWith('valtio/v1.0/controller-test', { count: 1 });
+    });
+
+    it('should not write on resume without changes', () => {
+      const result = cache({ key: 'controller-test', db: mockDb }, { count: 0 });
+      const controller = getCacheController(result)!;
+
+      controller.pause();
+      controller.resume();
+
+      expect(mockSet).not.toHaveBeenCalled();
+    });
+
+    it('should flush delayed write', async () => {
+      vi.useFakeTimers();
+      try {
+        const result = cache({ key: 'controller-test', db: mockDb, writeStrategy: debounceWrites(1000) }, { count: 0 });
+        result.count = 1;
+        await Promise.resolve();
+
+        getCacheController(result)!.flush();
+
+        expect(mockSet).toHaveBeenCalledWith('valtio/v1.0/controller-test', { count: 1 });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should stop persisting on dispose', async () => {
+      const result = cache({ key: 'controller-test', db: mockDb }, { count: 0 });
+
+      getCacheController(result)!.dispose();
+      result.count = 1;
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(mockSet).not.toHaveBeenCalled();
+      expect(getCacheController(result)).toBeUndefined();
+    });
+  });
+
+  describe('transport option', () => {
+    it('should apply changes made by other peer', async () => {
+      const channel = new MemoryChannel();
+      const first = cache({ key: 'shared', db: mockDb, transport: channel.createTransport() }, { user: { name: '' }, items: [] as number[] });
+      const second = cache({ key: 'shared', db: mockDb, transport: channel.createTransport() }, { user: { name: '' }, items: [] as number[] });
+
+      first.user.name = 'John';
+      first.items.push(1);
+
+      expect(second.user.name).toBe('John');
+      expect(second.items).toEqual([1]);
+    });
+
+    it('should sync maps and sets', async () => {
+      const channel = new MemoryChannel();
+      const create = () => cache({ key: 'shared', db: mockDb, transport: channel.createTransport() }, {
+        tags: proxyMap<string, number>(),
+        ids: proxySet<number>(),
+      });
+      const first = create();
+      const second = create();
+
+      first.tags.set('a', 1);
+      first.tags.set('b', 2);
+      first.ids.add(1);
+      await Promise.resolve();
+
+      expect([...second.tags]).toEqual([['a', 1], ['b', 2]]);
+      expect([...second.ids]).toEqual([1]);
+
+      second.tags.delete('a');
+      second.ids.clear();
+      await Promise.resolve();
+
+      expect([...first.tags]).toEqual([['b', 2]]);
+      expect(first.ids.size).toBe(0);
+    });
+
+    it('should not send changes loaded from storage', async () => {
+      vi.stubGlobal('window', new EventTarget());
+      try {
+        const channel = new MemoryChannel();
+        const transport = channel.createTransport();
+        const post = vi.spyOn(transport, 'post');
+        const result = cache({ key: 'shared', db: mockDb, syncTabs: true, transport }, { items: [] as number[] });
+
+        mockGet.mockReturnValue({ items: [1] });
+        window.dispatchEvent(Object.assign(new Event('storage'), { key: 'valtio/v1.0/shared' }));
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        expect(result.items).toEqual([1]);
+        expect(post).not.toHaveBeenCalled();
+        expect(mockSet).not.toHaveBeenCalled();
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should not send received changes back', () => {
+      const channel = new MemoryChannel();
+      const firstTransport = channel.createTransport();
+      const secondTransport = channel.createTransport();
+      const post = vi.spyOn(secondTransport, 'post');
+      const first = cache({ key: 'shared', db: mockDb, transport: firstTransport }, { count: 0 });
+      cache({ key: 'shared', db: mockDb, transport: secondTransport }, { count: 0 });
+
+      first.count = 1;
+
+      expect(post).not.toHaveBeenCalled();
+    });
+
+    it('should persist received changes', async () => {
+      const channel = new MemoryChannel();
+      const otherDb: ISyncDB = { get: vi.fn().mockReturnValue(null), set: vi.fn() };
+      const first = cache({ key: 'shared', db: mockDb, transport: channel.createTransport() }, { count: 0 });
+      cache({ key: 'shared', db: otherDb, transport: channel.createTransport() }, { count: 0 });
+
+      first.count = 1;
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(otherDb.set).toHaveBeenCalledWith('valtio/v1.0/shared', { count: 1 });
+    });
+
+    it('should ignore changes of other keys', () => {
+      const channel = new MemoryChannel();
+      const first = cache({ key: 'first', db: mockDb, transport: channel.createTransport() }, { count: 0 });
+      const second = cache({ key: 'second', db: mockDb, transport: channel.createTransport() }, { count: 0 });
+
+      first.count = 1;
+
+      expect(second.count).toBe(0);
+    });
+
+    it('should stop syncing once state is disposed', () => {
+      const channel = new MemoryChannel();
+      const first = cache({ key: 'shared', db: mockDb, transport: channel.createTransport() }, { count: 0 });
+      const second = cache({ key: 'shared', db: mockDb, transport: channel.createTransport() }, { count: 0 });
+
+      disposeCache(second);
+      first.count = 1;
+
+      expect(second.count).toBe(0);
+    });
+  });
+
+  describe('writeStrategy option', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      return () => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+      };
+    });
+
+    it('should defer writes by strategy', async () => {
+      const result = cache({ key: 'editor', db: mockDb, writeStrategy: debounceWrites(100) }, { count: 0 });
+
+      result.count = 1;
+      await Promise.resolve();
+      result.count = 2;
+      await Promise.resolve();
+      expect(mockSet).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(100);
+      expect(mockSet).toHaveBeenCalledTimes(1);
+      expect(mockSet).toHaveBeenCalledWith('valtio/v1.0/editor', { count: 2 });
+    });
+
+    it('should flush pending write when user leaves the page', async () => {
+      vi.stubGlobal('window', new EventTarget());
+      const result = cache({ key: 'editor', db: mockDb, writeStrategy: debounceWrites(100) }, { count: 0 });
+
+      result.count = 1;
+      await Promise.resolve();
+      window.dispatchEvent(new Event('pagehide'));
+
+      expect(mockSet).toHaveBeenCalledWith('valtio/v1.0/editor', { count: 1 });
+    });
+
+    it('should flush pending write when state is disposed', async () => {
+      const result = cache({ key: 'editor', db: mockDb, writeStrategy: debounceWrites(100) }, { count: 0 });
+
+      result.count = 1;
+      await Promise.resolve();
+      disposeCache(result);
+
+      expect(mockSet).toHaveBeenCalledWith('valtio/v1.0/editor', { count: 1 });
+    });
+
+    it('should flush change made in the same tick', () => {
+      const result = cache({ key: 'editor', db: mockDb, writeStrategy: debounceWrites(200) }, { count: 0 });
+
+      result.count = 1;
+      getCacheController(result)!.flush();
+
+      expect(mockSet).toHaveBeenCalledWith('valtio/v1.0/editor', { count: 1 });
+    });
+
+    it('should write change made in the same tick on dispose and not after it', async () => {
+      const result = cache({ key: 'editor', db: mockDb, writeStrategy: debounceWrites(200) }, { count: 0 });
+
+      result.count = 2;
+      disposeCache(result);
+      expect(mockSet).toHaveBeenCalledTimes(1);
+      expect(mockSet).toHaveBeenCalledWith('valtio/v1.0/editor', { count: 2 });
+
+      await Promise.resolve();
+      vi.advanceTimersByTime(200);
+      expect(mockSet).toHaveBeenCalledTimes(1);
+    });
+
+    it('should flush change made in the same task when user leaves the page', () => {
+      vi.stubGlobal('window', new EventTarget());
+      const result = cache({ key: 'editor', db: mockDb, writeStrategy: debounceWrites(100) }, { count: 0 });
+
+      result.count = 1;
+      window.dispatchEvent(new Event('pagehide'));
+
+      expect(mockSet).toHaveBeenCalledWith('valtio/v1.0/editor', { count: 1 });
+    });
+
+    it('should stop listening page exit once state is disposed', async () => {
+      vi.stubGlobal('window', new EventTarget());
+      const result = cache({ key: 'editor', db: mockDb, writeStrategy: debounceWrites(100) }, { count: 0 });
+
+      disposeCache(result);
+      mockSet.mockClear();
+      window.dispatchEvent(new Event('pagehide'));
+
+      expect(mockSet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('include and exclude options', () => {
+    it('should not save excluded fields', async () => {
+      const result = cache({
+        key: 'filtered',
+        db: mockDb,
+        exclude: ['isLoading', 'session.token'],
+      }, { isLoading: false, session: { token: '', user: '' } });
+
+      result.isLoading = true;
+      result.session.token = 'secret';
+      result.session.user = 'john';
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(mockSet).toHaveBeenLastCalledWith('valtio/v1.0/filtered', { session: { user: 'john' } });
+    });
+
+    it('should not restore excluded fields', () => {
+      mockGet.mockReturnValue({ isLoading: true, session: { token: 'secret', user: 'john' } });
+
+      const result = cache({
+        key: 'filtered',
+        db: mockDb,
+        exclude: ['isLoading', ['session', 'token']],
+      }, { isLoading: false, session: { token: '', user: '' } });
+
+      expect(result.isLoading).toBe(false);
+      expect(result.session).toEqual({ token: '', user: 'john' });
+    });
+
+    it('should save and restore only included fields', async () => {
+      mockGet.mockReturnValue({ ui: { sidebarOpen: false, modal: 'settings' }, theme: 'dark' });
+
+      const result = cache({
+        key: 'filtered',
+        db: mockDb,
+        include: ['ui.sidebarOpen'],
+      }, { ui: { sidebarOpen: true, modal: '' }, theme: 'light' });
+
+      expect(result.ui).toEqual({ sidebarOpen: false, modal: '' });
+      expect(result.theme).toBe('light');
+
+      result.theme = 'blue';
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(mockSet).toHaveBeenCalledWith('valtio/v1.0/filtered', { ui: { sidebarOpen: false } });
+    });
+
+    it('should filter versioned data after migrations', () => {
+      mockGet.mockReturnValue({ token: 'secret', name: 'john' });
+
+      const result = cache({
+        key: 'filtered',
+        db: mockDb,
+        version: 1,
+        migrate: { 1: ({ token, name }: any) => ({ session: { token }, name }) },
+        exclude: ['session.token'],
+      }, { session: { token: '' }, name: '' });
+
+      expect(result.session.token).toBe('');
+      expect(result.name).toBe('john');
+    });
+  });
+
+  describe('ttl option', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+      return () => vi.useRealTimers();
+    });
+
+    it('should store write time next to data', async () => {
+      const result = cache({ key: 'flags', db: mockDb, ttl: 60_000 }, { enabled: false });
+
+      result.enabled = true;
+      await Promise.resolve();
+
+      expect(mockSet).toHaveBeenCalledWith('valtio/v1.0/flags', {
+        __valtioCache: { updatedAt: Date.now() },
+        data: { enabled: true },
+      });
+    });
+
+    it('should restore data younger than ttl', () => {
+      mockGet.mockReturnValue({ __valtioCache: { updatedAt: Date.now() - 30_000 }, data: { enabled: true } });
+
+      const result = cache({ key: 'flags', db: mockDb, ttl: 60_000 }, { enabled: false });
+
+      expect(result.enabled).toBe(true);
+    });
+
+    it('should ignore data older than ttl', () => {
+      mockGet.mockReturnValue({ __valtioCache: { updatedAt: Date.now() - 90_000 }, data: { enabled: true } });
+
+      const result = cache({ key: 'flags', db: mockDb, ttl: 60_000 }, { enabled: false });
+
+      expect(result.enabled).toBe(false);
+    });
+
+    it('should ignore data stored without write time', () => {
+      mockGet.mockReturnValue({ enabled: true });
+
+      const result = cache({ key: 'flags', db: mockDb, ttl: 60_000 }, { enabled: false });
+
+      expect(result.enabled).toBe(false);
+    });
+
+    it('should keep version next to write time', async () => {
+      const result = cache({ key: 'flags', db: mockDb, ttl: 60_000, version: 3 }, { enabled: false });
+
+      result.enabled = true;
+      await Promise.resolve();
+
+      expect(mockSet).toHaveBeenCalledWith('valtio/v1.0/flags', {
+        __valtioCache: { version: 3, updatedAt: Date.now() },
+        data: { enabled: true },
+      });
+    });
+
+    it('should remove expired data when removeExpired is set', () => {
+      const remove = vi.fn();
+      mockGet.mockReturnValue({ __valtioCache: { updatedAt: Date.now() - 90_000 }, data: { enabled: true } });
+
+      cache({ key: 'flags', db: { ...mockDb, remove }, ttl: 60_000, removeExpired: true }, { enabled: false });
+
+      expect(remove).toHaveBeenCalledWith('valtio/v1.0/flags');
+    });
+
+    it('should keep expired data by default', () => {
+      const remove = vi.fn();
+      mockGet.mockReturnValue({ __valtioCache: { updatedAt: Date.now() - 90_000 }, data: { enabled: true } });
+
+      cache({ key: 'flags', db: { ...mockDb, remove }, ttl: 60_000 }, { enabled: false });
+
+      expect(remove).not.toHaveBeenCalled();
+    });
+
+    it('should ignore expired data when database not supports deletion', () => {
+      mockGet.mockReturnValue({ __valtioCache: { updatedAt: Date.now() - 90_000 }, data: { enabled: true } });
+
+      const result = cache({ key: 'flags', db: mockDb, ttl: 60_000, removeExpired: true }, { enabled: false });
+
+      expect(result.enabled).toBe(false);
+    });
+  });
+
+  describe('expires option', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+      return () => vi.useRealTimers();
+    });
+
+    const initial = () => ({
+      search: { query: '', results: [] as string[] },
+      auth: { otp: '' },
+      theme: 'light',
+    });
+
+    it('should store write time of changed fields', async () => {
+      const result = cache({ key: 'mixed', db: mockDb, expires: { 'search.results': 60_000, 'auth.otp': 300_000 } }, initial());
+
+      result.search.results.push('first');
+      result.theme = 'dark';
+      await Promise.resolve();
+
+      expect(mockSet).toHaveBeenCalledWith('valtio/v1.0/mixed', {
+        __valtioCache: { fields: { 'search.results': Date.now() } },
+        data: { search: { query: '', results: ['first'] }, auth: { otp: '' }, theme: 'dark' },
+      });
+    });
+
+    it('should track write time when parent object replaced', async () => {
+      const result = cache({ key: 'mixed', db: mockDb, expires: { 'search.results': 60_000 } }, initial());
+
+      result.search = { query: 'new', results: ['a'] };
+      await Promise.resolve();
+
+      expect(mockSet.mock.calls[0][1].__valtioCache).toEqual({ fields: { 'search.results': Date.now() } });
+    });
+
+    it('should restore expired fields with initial values', () => {
+      mockGet.mockReturnValue({
+        __valtioCache: { fields: { 'search.results': Date.now() - 90_000, 'auth.otp': Date.now() - 90_000 } },
+        data: { search: { query: 'cats', results: ['cat'] }, auth: { otp: '1234' }, theme: 'dark' },
+      });
+
+      const result = cache({ key: 'mixed', db: mockDb, expires: { 'search.results': 60_000, 'auth.otp': 300_000 } }, initial());
+
+      expect(result.search).toEqual({ query: 'cats', results: [] });
+      expect(result.auth.otp).toBe('1234');
+      expect(result.theme).toBe('dark');
+    });
+
+    it('should treat fields without write time as expired', () => {
+      mockGet.mockReturnValue({ search: { query: 'cats', results: ['cat'] }, auth: { otp: '' }, theme: 'dark' });
+
+      const result = cache({ key: 'mixed', db: mockDb, expires: { 'search.results': 60_000 } }, initial());
+
+      expect(result.search.results).toEqual([]);
+      expect(result.theme).toBe('dark');
+    });
+
+    it('should keep write time of restored fields', async () => {
+      const writtenAt = Date.now() - 30_000;
+      mockGet.mockReturnValue({
+        __valtioCache: { fields: { 'auth.otp': writtenAt, 'search.results': Date.now() - 90_000 } },
+        data: { search: { query: '', results: ['old'] }, auth: { otp: '1234' }, theme: 'dark' },
+      });
+
+      const result = cache({ key: 'mixed', db: mockDb, expires: { 'search.results': 60_000, 'auth.otp': 300_000 } }, initial());
+
+      result.theme = 'light';
+      await Promise.resolve();
+
+      expect(mockSet.mock.calls[0][1].__valtioCache).toEqual({ fields: { 'auth.otp': writtenAt } });
+    });
+  });
+
+  describe('codec option', () => {
+    it('should pass codec to default database', async () => {
+      const storage: Record<string, string> = {};
+      vi.stubGlobal('window', {});
+      vi.stubGlobal('localStorage', {
+        getItem: (key: string) => storage[key] ?? null,
+        setItem: (key: string, value: string) => { storage[key] = value; },
+      });
+
+      try {
+        const first = cache({ key: 'dates', codec: extendedJsonCodec }, { at: new Date(0) });
+        first.at = new Date(1000);
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        const second = cache({ key: 'dates', codec: extendedJsonCodec }, { at: new Date(0) });
+        expect(second.at).toBeInstanceOf(Date);
+        expect(second.at.getTime()).toBe(1000);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+
+  describe('collections', () => {
+    it('should persist and restore valtio collections', async () => {
+      const db = new LocalStorageDB(createFakeStorage());
+      const first = cache({ key: 'collections', db }, { byId: proxyMap<string, { name: string }>(), tags: proxySet<string>() });
+
+      first.byId.set('a', { name: 'A' });
+      first.tags.add('x');
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const second = cache({ key: 'collections', db }, { byId: proxyMap<string, { name: string }>(), tags: proxySet<string>() });
+      expect(second.byId.get('a')).toEqual({ name: 'A' });
+      expect(second.tags.has('x')).toBe(true);
+    });
+
+    it('should restore native collections', async () => {
+      const db = new LocalStorageDB(createFakeStorage());
+      const first = cache({ key: 'collections', db }, { byId: new Map<string, number>() });
+
+      first.byId = new Map([['a', 1]]);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const second = cache({ key: 'collections', db }, { byId: new Map<string, number>() });
+      expect(second.byId).toBeInstanceOf(Map);
+      expect(second.byId.get('a')).toBe(1);
+    });
+
+    it('should keep collections reactive after restore', async () => {
+      const db = new LocalStorageDB(createFakeStorage());
+      db.set('valtio/v1.0/collections', { tags: ['x'] });
+      const state = cache({ key: 'collections', db }, { tags: proxySet<string>() });
+
+      state.tags.add('y');
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(db.get('valtio/v1.0/collections')).toEqual({ tags: ['x', 'y'] });
+    });
+  });
+
+  describe('recovery from corrupted data', () => {
+    const corruptedStorage = () => createFakeStorage({ 'valtio/v1.0/settings': '{"theme": "dark"' });
+
+    it('should fall back to initial object by default', () => {
+      const storage = corruptedStorage();
+      const onError = vi.fn();
+
+      const result = cache({ key: 'settings', db: new LocalStorageDB(storage), onError }, { theme: 'light' });
+
+      expect(result.theme).toBe('light');
+      expect(onError).toHaveBeenCalledWith(expect.any(CorruptedEntryError), {
+        key: 'valtio/v1.0/settings',
+        recovery: 'reset',
+      });
+      expect(storage.getItem('valtio/v1.0/settings')).toBe('{"theme": "dark"');
+    });
+
+    it('should log error as warning when onError is not provided', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      cache({ key: 'settings', db: new LocalStorageDB(corruptedStorage()) }, { theme: 'light' });
+
+      expect(warn).toHaveBeenCalledWith('Cannot load cached state of "valtio/v1.0/settings"', expect.any(CorruptedEntryError));
+      warn.mockRestore();
+    });
+
+    it('should move corrupted value under side key with quarantine policy', () => {
+      const storage = corruptedStorage();
+      const db = new LocalStorageDB(storage);
+
+      const result = cache({ key: 'settings', db, recovery: 'quarantine', onError: vi.fn() }, { theme: 'light' });
+
+      expect(result.theme).toBe('light');
+      expect(storage.getItem('valtio/v1.0/settings')).toBeNull();
+      expect(db.get(`valtio/v1.0/settings${QUARANTINE_SUFFIX}`)).toBe('{"theme": "dark"');
+    });
+
+    it('should rethrow error with throw policy', () => {
+      const onError = vi.fn();
+
+      expect(() => cache({
+        key: 'settings',
+        db: new LocalStorageDB(corruptedStorage()),
+        recovery: 'throw',
+        onError,
+      }, { theme: 'light' })).toThrow(CorruptedEntryError);
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it('should recover from failed migration', () => {
+      const storage = createFakeStorage({ 'valtio/v1.0/settings': '{"theme":"dark"}' });
+      const db = new LocalStorageDB(storage);
+      const error = new Error('migration failed');
+
+      const result = cache({
+        key: 'settings',
+        db,
+        version: 1,
+        migrate: { 1: () => { throw error; } },
+        recovery: 'quarantine',
+        onError: vi.fn(),
+      }, { theme: 'light' });
+
+      expect(result.theme).toBe('light');
+      expect(db.get(`valtio/v1.0/settings${QUARANTINE_SUFFIX}`)).toEqual({ theme: 'dark' });
+    });
+
+    it('should keep persisting after recovery', async () => {
+      const db = new LocalStorageDB(corruptedStorage());
+
+      const result = cache({ key: 'settings', db, onError: vi.fn() }, { theme: 'light' });
+      result.theme = 'blue';
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(db.get('valtio/v1.0/settings')).toEqual({ theme: 'blue' });
+    });
+  });
+
+  describe('onQuotaExceeded option', () => {
+    it('should report dropped writes of default database', async () => {
+      vi.stubGlobal('window', {});
+      vi.stubGlobal('localStorage', {
+        getItem: () => null,
+        setItem: () => {
+          throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+        },
+      });
+      const onQuotaExceeded = vi.fn();
+
+      try {
+        const result = cache({ key: 'large', onQuotaExceeded }, { text: '' });
+        result.text = 'large text';
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        expect(onQuotaExceeded).toHaveBeenCalledWith(expect.objectContaining({
+          key: 'valtio/v1.0/large',
+          saved: false,
+        }));
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+
+  describe('quotaPolicy option', () => {
+    const stubLimitedStorage = (limit: number, initial: [string, string][]) => {
+      const store = new Map(initial);
+      vi.stubGlobal('window', {});
+      vi.stubGlobal('localStorage', {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+          const used = [...store].reduce((sum, [other, stored]) => other === key ? sum : sum + stored.length, 0);
+          if (used + value.length > limit) {
+            throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+          }
+          store.set(key, value);
+        },
+        removeItem: (key: string) => { store.delete(key); },
+        key: (index: number) => [...store.keys()][index] ?? null,
+        get length() {
+          return store.size;
+        },
+      });
+      return store;
+    };
+
+    it('should trim low priority keys of default database', async () => {
+      const store = stubLimitedStorage(30, [['valtio/v1.0/drafts:low', '"12345"'], ['valtio/v1.0/profile', '"12345"']]);
+
+      try {
+        const result = cache({
+          key: 'editor',
+          quotaPolicy: 'trim-low-priority',
+          isLowPriority: key => key.endsWith(':low'),
+          onQuotaExceeded: vi.fn(),
+        }, { text: '' });
+        result.text = '1234567';
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        expect([...store.keys()]).toEqual(['valtio/v1.0/profile', 'valtio/v1.0/editor']);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should evict keys under prefix of the cache by default', async () => {
+      const store = stubLimitedStorage(30, [['myapp:old', '"1234567890"'], ['other', '"12345"']]);
+      const onQuotaExceeded = vi.fn();
+
+      try {
+        const result = cache({ key: 'editor', prefix: 'myapp:', quotaPolicy: 'evict-lru', onQuotaExceeded }, { text: '' });
+        result.text = '1234567';
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        expect([...store.keys()]).toEqual(['other', 'myapp:editor']);
+        expect(onQuotaExceeded).toHaveBeenCalledWith(expect.objectContaining({ evicted: ['myapp:old'], saved: true }));
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+
+  describe('cipher option', () => {
+    it('should store state encrypted', async () => {
+      const storage = createFakeStorage();
+      const db = new LocalStorageDB(storage);
+
+      const result = cache({ key: 'profile', db, cipher: createStreamCipher('secret') }, { email: '' });
+      result.email = 'user@example.com';
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(storage.getItem('valtio/v1.0/profile')).not.toContain('user@example.com');
+      expect(cache({ key: 'profile', db, cipher: createStreamCipher('secret') }, { email: '' }).email).toBe('user@example.com');
+    });
+
+    it('should compress state before encryption', async () => {
+      const storage: Record<string, string> = {};
+      vi.stubGlobal('window', {});
+      vi.stubGlobal('localStorage', {
+        getItem: (key: string) => storage[key] ?? null,
+        setItem: (key: string, value: string) => { storage[key] = value; },
+      });
+
+      try {
+        const options = { key: 'log', cipher: createStreamCipher('secret'), compression: lzCompressor };
+        const result = cache(options, { lines: [] as string[] });
+        result.lines = Array.from({ length: 500 }, (_, i) => `line ${i % 10}`);
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        expect(storage['valtio/v1.0/log'].length).toBeLessThan(JSON.stringify(result.lines).length / 3);
+        expect(cache(options, { lines: [] as string[] }).lines).toHaveLength(500);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should keep state stored before encryption was enabled', async () => {
+      const storage = createFakeStorage({ 'valtio/v1.0/profile': '{"email":"user@example.com"}' });
+      const db = new LocalStorageDB(storage);
+
+      const result = cache({ key: 'profile', db, cipher: createStreamCipher('secret') }, { email: '' });
+      expect(result.email).toBe('user@example.com');
+
+      result.email = 'new@example.com';
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(storage.getItem('valtio/v1.0/profile')).not.toContain('example.com');
+    });
+
+    it('should recover from values which cannot be decrypted', () => {
+      const storage = createFakeStorage();
+      const db = new LocalStorageDB(storage);
+      new CipherDB(db, createStreamCipher('old secret')).set('valtio/v1.0/profile', { email: 'user@example.com' });
+      const onError = vi.fn();
+
+      const result = cache({
+        key: 'profile',
+        db,
+        cipher: createStreamCipher('new secret'),
+        recovery: 'quarantine',
+        onError,
+      }, { email: '' });
+
+      expect(result.email).toBe('');
+      expect(onError).toHaveBeenCalledWith(expect.any(CorruptedEntryError), expect.objectContaining({ recovery: 'quarantine' }));
+      expect(storage.getItem('valtio/v1.0/profile')).toBeNull();
+      expect(db.get(`valtio/v1.0/profile${QUARANTINE_SUFFIX}`)).toMatch(/^v1\./);
+    });
+  });
+
+  describe('with MemoryDB', () => {
+    it('should persist state between cache calls', async () => {
+      const db = new MemoryDB();
+
+      const first = cache({ key: 'settings', db }, { theme: 'light' });
+      first.theme = 'dark';
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(db.snapshot()).toEqual({ 'valtio/v1.0/settings': { theme: 'dark' } });
+      expect(cache({ key: 'settings', db }, { theme: 'light' }).theme).toBe('dark');
+    });
+  });
+
+  describe('resetCache', () => {
+    it('should restore initial state and remove stored value', async () => {
+      const db = new MemoryDB({ 'valtio/v1.0/settings': { theme: 'dark', extra: true } });
+      const result = cache({ key: 'settings', db }, { theme: 'light', nested: { size: 1 } });
+      result.nested.size = 2;
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      resetCache(result);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(result).toEqual({ theme: 'light', nested: { size: 1 } });
+      expect(db.has('valtio/v1.0/settings')).toBe(false);
+    });
+
+    it('should persist changes made after reset', async () => {
+      const db = new MemoryDB({ 'valtio/v1.0/settings': { theme: 'dark' } });
+      const result = cache({ key: 'settings', db }, { theme: 'light' });
+
+      resetCache(result);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      result.theme = 'blue';
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(db.get('valtio/v1.0/settings')).toEqual({ theme: 'blue' });
+    });
+
+    it('should persist changes made in the same tick as reset', async () => {
+      const db = new MemoryDB({ 'valtio/v1.0/settings': { theme: 'dark' } });
+      const result = cache({ key: 'settings', db }, { theme: 'light' });
+
+      resetCache(result);
+      result.theme = 'blue';
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(db.get('valtio/v1.0/settings')).toEqual({ theme: 'blue' });
+    });
+
+    it('should not persist changes made before reset in the same tick', async () => {
+      const db = new MemoryDB();
+      const result = cache({ key: 'settings', db }, { theme: 'light' });
+
+      result.theme = 'dark';
+      resetCache(result);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(result.theme).toBe('light');
+      expect(db.size).toBe(0);
+    });
+
+    it('should keep methods and collections of initial object', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/counter': { count: 5, tags: ['a'] } });
+      const result = cache({ key: 'counter', db }, {
+        count: 0,
+        tags: proxySet<string>(),
+        increment() { this.count++; },
+      });
+
+      resetCache(result);
+      result.increment();
+
+      expect(result.count).toBe(1);
+      expect(result.tags.size).toBe(0);
+    });
+
+    it('should cancel delayed write', async () => {
+      vi.useFakeTimers();
+      try {
+        const db = new MemoryDB();
+        const result = cache({ key: 'settings', db, writeStrategy: debounceWrites(1000) }, { theme: 'light' });
+        result.theme = 'dark';
+        await Promise.resolve();
+
+        resetCache(result);
+        await vi.advanceTimersByTimeAsync(2000);
+
+        expect(db.size).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should write defaults when database cannot remove values', async () => {
+      const result = cache({ key: 'settings', db: mockDb }, { theme: 'light' });
+      result.theme = 'dark';
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      resetCache(result);
+
+      expect(mockSet).toHaveBeenLastCalledWith('valtio/v1.0/settings', { theme: 'light' });
+    });
+  });
+
+  describe('clearCaches', () => {
+    it('should reset created states and remove stored keys under prefix', async () => {
+      const db = new MemoryDB({
+        'app/settings': { theme: 'dark' },
+        'app/old-state': { value: 1 },
+        'other/state': { value: 2 },
+      });
+      const settings = cache({ key: 'settings', prefix: 'app/', db }, { theme: 'light' });
+
+      clearCaches({ prefix: 'app/', db });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(settings.theme).toBe('light');
+      expect(db.snapshot()).toEqual({ 'other/state': { value: 2 } });
+    });
+
+    it('should not fail when database cannot list keys', () => {
+      expect(() => clearCaches({ prefix: 'missing/', db: mockDb })).not.toThrow();
+    });
+  });
+
+  describe('validate option', () => {
+    const isSettings = (data: any) => typeof data?.theme === 'string' && typeof data?.size === 'number';
+
+    it('should restore data which passes type guard', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/settings': { theme: 'dark', size: 2 } });
+
+      const result = cache({ key: 'settings', db, validate: isSettings }, { theme: 'light', size: 1 });
+
+      expect(result).toEqual({ theme: 'dark', size: 2 });
+    });
+
+    it('should reject invalid data through recovery policy', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/settings': { theme: 42 } });
+      const onError = vi.fn();
+
+      const result = cache({ key: 'settings', db, validate: isSettings, recovery: 'quarantine', onError }, { theme: 'light', size: 1 });
+
+      expect(result).toEqual({ theme: 'light', size: 1 });
+      expect(onError).toHaveBeenCalledWith(expect.any(ValidationError), { key: 'valtio/v1.0/settings', recovery: 'quarantine' });
+      expect(db.get(`valtio/v1.0/settings${QUARANTINE_SUFFIX}`)).toEqual({ theme: 42 });
+    });
+
+    it('should use data returned by schema', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/settings': { theme: 'dark', unknown: true } });
+      const schema = {
+        safeParse: (data: any) => typeof data.theme === 'string'
+          ? { success: true, data: { theme: data.theme } }
+          : { success: false, error: new Error('invalid theme') },
+      };
+
+      const result = cache({ key: 'settings', db, validate: schema }, { theme: 'light' });
+
+      expect(result).toEqual({ theme: 'dark' });
+    });
+
+    it('should pass schema error to error handler', () => {
+      const error = new Error('invalid theme');
+      const db = new MemoryDB({ 'valtio/v1.0/settings': { theme: 1 } });
+      const onError = vi.fn();
+
+      cache({ key: 'settings', db, validate: { safeParse: () => ({ success: false, error }) }, onError }, { theme: 'light' });
+
+      expect(onError.mock.calls[0][0].reason).toBe(error);
+    });
+
+    it('should reset only invalid fields with validators of fields', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/settings': { theme: 'neon', size: 2, user: { email: 'a@b.c' } } });
+      const onError = vi.fn();
+
+      const result = cache({
+        key: 'settings',
+        db,
+        validate: {
+          theme: (value) => value === 'light' || value === 'dark',
+          'user.email': (value) => typeof value === 'string' && value.includes('@'),
+        },
+        onError,
+      }, { theme: 'light', size: 1, user: { email: '' } });
+
+      expect(result).toEqual({ theme: 'light', size: 2, user: { email: 'a@b.c' } });
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(ValidationError);
+      expect(onError.mock.calls[0][0].paths).toEqual(['theme']);
+    });
+
+    it('should use field values returned by schema', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/settings': { size: '2' } });
+
+      const result = cache({
+        key: 'settings',
+        db,
+        validate: { size: { safeParse: (value: unknown) => ({ success: true, data: Number(value) }) } },
+      }, { size: 1 });
+
+      expect(result.size).toBe(2);
+    });
+
+    it('should validate migrated data', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/settings': { color: 'dark' } });
+
+      const result = cache({
+        key: 'settings',
+        db,
+        version: 1,
+        migrate: { 1: (data: any) => ({ theme: data.color, size: 2 }) },
+        validate: isSettings,
+      }, { theme: 'light', size: 1 });
+
+      expect(result).toEqual({ theme: 'dark', size: 2 });
+    });
+  });
+
+  describe('mergeStrategy option', () => {
+    it('should restore every stored field by default', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/settings': { theme: 'dark', removed: true } });
+
+      const result = cache({ key: 'settings', db }, { theme: 'light' });
+
+      expect(result).toEqual({ theme: 'dark', removed: true });
+    });
+
+    it('should restore only fields of initial object with strict strategy', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/settings': { theme: 'dark', removed: true, ui: { size: 2, legacy: 1 } } });
+
+      const result = cache({ key: 'settings', db, mergeStrategy: 'strict' }, { theme: 'light', ui: { size: 1 } });
+
+      expect(result).toEqual({ theme: 'dark', ui: { size: 2 } });
+    });
+
+    it('should keep unknown fields in storage by default', async () => {
+      const db = new MemoryDB({ 'valtio/v1.0/settings': { theme: 'dark', removed: true, ui: { size: 2, legacy: 1 } } });
+      const result = cache({ key: 'settings', db, mergeStrategy: 'strict' }, { theme: 'light', ui: { size: 1 } });
+
+      result.theme = 'blue';
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(db.get('valtio/v1.0/settings')).toEqual({ theme: 'blue', removed: true, ui: { size: 2, legacy: 1 } });
+    });
+
+    it('should prune unknown fields from storage on next write', async () => {
+      const db = new MemoryDB({ 'valtio/v1.0/settings': { theme: 'dark', removed: true, ui: { size: 2, legacy: 1 } } });
+      const result = cache({ key: 'settings', db, mergeStrategy: 'strict', pruneUnknown: true }, { theme: 'light', ui: { size: 1 } });
+
+      result.theme = 'blue';
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(db.get('valtio/v1.0/settings')).toEqual({ theme: 'blue', ui: { size: 2 } });
+    });
+
+    it('should keep unknown fields inside metadata envelope', async () => {
+      const db = new MemoryDB({ 'valtio/v1.0/settings': { __valtioCache: { version: 1 }, data: { theme: 'dark', removed: true } } });
+      const result = cache({ key: 'settings', db, version: 1, mergeStrategy: 'strict' }, { theme: 'light' });
+
+      result.theme = 'blue';
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(db.get('valtio/v1.0/settings')).toEqual({ __valtioCache: { version: 1 }, data: { theme: 'blue', removed: true } });
+    });
+
+    it('should keep maps and arrays restored as is', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/users': { byId: [['1', { name: 'Ann' }]], ids: ['1'] } });
+
+      const result = cache({ key: 'users', db, mergeStrategy: 'strict' }, { byId: proxyMap<string, { name: string }>(), ids: [] as string[] });
+
+      expect(result.byId.get('1')).toEqual({ name: 'Ann' });
+      expect(result.ids).toEqual(['1']);
+    });
+  });
+
+  describe('arrayMerge option', () => {
+    it('should add new default items and keep customized ones', () => {
+      const db = new MemoryDB({
+        'valtio/v1.0/dashboards': { list: [{ id: 'sales', title: 'My sales' }, { id: 'custom', title: 'Custom' }] },
+      });
+
+      const result = cache({ key: 'dashboards', db, arrayMerge: { list: { mergeBy: 'id' } } }, {
+        list: [{ id: 'sales', title: 'Sales', pinned: false }, { id: 'marketing', title: 'Marketing', pinned: false }],
+      });
+
+      expect(result.list).toEqual([
+        { id: 'sales', title: 'My sales', pinned: false },
+        { id: 'custom', title: 'Custom' },
+        { id: 'marketing', title: 'Marketing', pinned: false },
+      ]);
+    });
+
+    it('should apply strategies by nested path', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/search': { ui: { recent: ['b'] }, tags: ['x'] } });
+
+      const result = cache({
+        key: 'search',
+        db,
+        arrayMerge: { 'ui.recent': 'union', tags: 'keep-initial' },
+      }, { ui: { recent: ['a'] }, tags: ['default'] });
+
+      expect(result.ui.recent).toEqual(['b', 'a']);
+      expect(result.tags).toEqual(['default']);
+    });
+
+    it('should replace arrays without strategy', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/search': { recent: ['b'], tags: ['x'] } });
+
+      const result = cache({ key: 'search', db, arrayMerge: { recent: 'union' } }, { recent: ['a'], tags: ['default'] });
+
+      expect(result.tags).toEqual(['x']);
+    });
+
+    it('should not share items with initial object defaults', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/dashboards': { list: [] } });
+      const result = cache({ key: 'dashboards', db, arrayMerge: { list: 'union' } }, { list: [{ id: 'sales', title: 'Sales' }] });
+
+      result.list[0].title = 'Changed';
+      resetCache(result);
+
+      expect(result.list).toEqual([{ id: 'sales', title: 'Sales' }]);
+    });
+  });
+
+  describe('merge option', () => {
+    it('should restore data returned by merge function', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/stats': { visits: 3, theme: 'dark' } });
+      const merge = vi.fn((initial: any, stored: any) => ({ ...stored, visits: Math.max(initial.visits, stored.visits) }));
+
+      const result = cache({ key: 'stats', db, merge }, { visits: 5, theme: 'light' });
+
+      expect(result).toEqual({ visits: 5, theme: 'dark' });
+      expect(merge).toHaveBeenCalledWith({ visits: 5, theme: 'light' }, { visits: 3, theme: 'dark' }, { path: '', version: undefined, meta: null });
+    });
+
+    it('should pass version and stored metadata', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/stats': { __valtioCache: { version: 2 }, data: { visits: 3 } } });
+      const merge = vi.fn((_initial: any, stored: any, _context: MergeContext) => stored);
+
+      cache({ key: 'stats', db, version: 2, merge }, { visits: 0 });
+
+      expect(merge.mock.calls[0][2]).toEqual({ path: '', version: 2, meta: { version: 2 } });
+    });
+
+    it('should not call merge function without stored data', () => {
+      const merge = vi.fn();
+
+      const result = cache({ key: 'stats', db: new MemoryDB(), merge }, { visits: 0 });
+
+      expect(result.visits).toBe(0);
+      expect(merge).not.toHaveBeenCalled();
+    });
+
+    it('should keep methods of initial object', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/counter': { count: 3 } });
+
+      const result = cache({ key: 'counter', db, merge: (_initial, stored) => stored }, {
+        count: 0,
+        increment() { this.count++; },
+      });
+      result.increment();
+
+      expect(result.count).toBe(4);
+    });
+
+    it('should merge fields with hooks by path', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/session': { user: { name: 'Ann', role: 'admin' }, visits: 3 } });
+      const roleHook = vi.fn((initial: string) => initial);
+
+      const result = cache({
+        key: 'session',
+        db,
+        version: 1,
+        mergeFields: {
+          'user.role': roleHook,
+          visits: (initial: number, stored: number) => Math.max(initial, stored),
+          missing: () => 'never',
+        },
+      }, { user: { name: '', role: 'guest' }, visits: 5, missing: 'default' });
+
+      expect(result).toEqual({ user: { name: 'Ann', role: 'guest' }, visits: 5, missing: 'default' });
+      expect(roleHook).toHaveBeenCalledWith('guest', 'admin', { path: 'user.role', version: 1, meta: null });
+    });
+
+    it('should call field hooks before merge function', () => {
+      const db = new MemoryDB({ 'valtio/v1.0/stats': { visits: 3 } });
+      const merge = vi.fn((_initial: any, stored: any) => stored);
+
+      cache({ key: 'stats', db, mergeFields: { visits: () => 10 }, merge }, { visits: 0 });
+
+      expect(merge.mock.calls[0][1]).toEqual({ visits: 10 });
+    });
+
+    it('should merge over current state when data changed in other tab', async () => {
+      const fakeWindow = new EventTarget();
+      vi.stubGlobal('window', fakeWindow);
+      try {
+        const storage = createFakeStorage({ 'valtio/v1.0/stats': '{"visits":3}' });
+        const db = new LocalStorageDB(storage);
+        const result = cache({
+          key: 'stats',
+          db,
+          syncTabs: true,
+          mergeFields: { visits: (current: number, stored: number) => Math.max(current, stored) },
+        }, { visits: 0 });
+        result.visits = 10;
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        storage.setItem('valtio/v1.0/stats', '{"visits":4}');
+        fakeWindow.dispatchEvent(Object.assign(new Event('storage'), { key: 'valtio/v1.0/stats' }));
+
+        expect(result.visits).toBe(10);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
 });
 
 describe('cacheFactory', () => {
@@ -704,7 +2132,7 @@ describe('cacheFactory', () => {
       const initialState = { count: 0 };
       const result = myCache({ key: 'test-key', db: mockDb }, initialState);
 
-      expect(mockSubscribeFunction).toHaveBeenCalledWith(result, expect.any(Function));
+      expect(mockSubscribeFunction).toHaveBeenCalledWith(result, expect.any(Function), true);
       
       result.count = 5;
       await new Promise(resolve => setTimeout(resolve, 10));
@@ -727,7 +2155,7 @@ describe('cacheFactory', () => {
       const result = myCache({ key: 'test-key', db: mockDb }, initialState);
 
       expect(mockProxyFunction).toHaveBeenCalledWith(initialState);
-      expect(mockSubscribeFunction).toHaveBeenCalledWith(result, expect.any(Function));
+      expect(mockSubscribeFunction).toHaveBeenCalledWith(result, expect.any(Function), true);
       
       result.count = 10;
       await new Promise(resolve => setTimeout(resolve, 10));
@@ -787,7 +2215,7 @@ describe('cacheFactory', () => {
       const result = myCache(options, initialState);
 
       expect(mockProxyFunction).toHaveBeenCalledWith(initialState);
-      expect(mockSubscribeFunction).toHaveBeenCalledWith(result, expect.any(Function));
+      expect(mockSubscribeFunction).toHaveBeenCalledWith(result, expect.any(Function), true);
       expect(mockGet).toHaveBeenCalledWith('custom/merge-test');
     });
 
@@ -879,7 +2307,7 @@ describe('cacheFactory', () => {
       const result = myCache({ key: 'use-cache-test', skipCache: false, db: mockDb }, initialState);
 
       expect(mockProxyFunction).toHaveBeenCalledWith(initialState);
-      expect(mockSubscribeFunction).toHaveBeenCalledWith(result, expect.any(Function));
+      expect(mockSubscribeFunction).toHaveBeenCalledWith(result, expect.any(Function), true);
       expect(mockGet).toHaveBeenCalledWith('valtio/v1.0/use-cache-test');
       expect(result.count).toBe(5);
     });
@@ -1129,7 +2557,7 @@ describe('cacheFactory', () => {
       const initialState = { count: 0 };
       const result = myCache({ key: 'only-subscribe-test', db: mockDb }, initialState);
 
-      expect(mockSubscribeFunction).toHaveBeenCalledWith(result, expect.any(Function));
+      expect(mockSubscribeFunction).toHaveBeenCalledWith(result, expect.any(Function), true);
       
       result.count = 7;
       await new Promise(resolve => setTimeout(resolve, 10));
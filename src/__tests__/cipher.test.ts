@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { CipherDB, createStreamCipher } from '../cipher';
+import { extendedJsonCodec } from '../codec';
+import { lzCompressor } from '../compression';
+import { CorruptedEntryError } from '../errors';
+import { LocalStorageDB, MemoryDB } from '../sync-db';
+
+const createFakeStorage = (initial: Record<string, string> = {}) => {
+  const storage: Record<string, string> = { ...initial };
+  return {
+    getItem: (key: string) => storage[key] ?? null,
+    setItem: (key: string, value: string) => { storage[key] = value; },
+    removeItem: (key: string) => { delete storage[key]; },
+  } as unknown as Storage;
+};
+
+describe('createStreamCipher', () => {
+  const cipher = createStreamCipher('secret');
+
+  it('should round-trip strings', () => {
+    for (const input of ['', 'a', '{"theme":"dark"}', 'Привет, 世界! 😀 café', 'x'.repeat(100000)]) {
+      expect(cipher.decrypt(cipher.encrypt(input))).toBe(input);
+    }
+  });
+
+  it('should not expose plain text', () => {
+    const encrypted = cipher.encrypt('{"email":"user@example.com"}');
+
+    expect(encrypted).not.toContain('user@example.com');
+    expect(encrypted).not.toContain('email');
+  });
+
+  it('should produce different output for the same value', () => {
+    expect(cipher.encrypt('value')).not.toBe(cipher.encrypt('value'));
+  });
+
+  it('should reject value encrypted with another secret', () => {
+    const encrypted = createStreamCipher('other').encrypt('value');
+
+    expect(() => cipher.decrypt(encrypted)).toThrow();
+  });
+
+  it('should reject tampered value', () => {
+    const encrypted = cipher.encrypt('{"role":"user"}');
+    const payload = encrypted.slice(encrypted.lastIndexOf('.') + 1);
+    const tamperedPayload = (payload[0] === 'A' ? 'B' : 'A') + payload.slice(1);
+
+    expect(() => cipher.decrypt(encrypted.replace(payload, tamperedPayload))).toThrow();
+  });
+
+  it('should reject values of unknown format', () => {
+    expect(() => cipher.decrypt('{"theme":"dark"}')).toThrow('Unknown format');
+  });
+
+  it('should recognize encrypted values', () => {
+    expect(cipher.isEncrypted!(cipher.encrypt('value'))).toBe(true);
+    expect(cipher.isEncrypted!('{"theme":"dark"}')).toBe(false);
+  });
+});
+
+describe('CipherDB', () => {
+  const cipher = createStreamCipher('secret');
+
+  it('should store encrypted values in wrapped database', () => {
+    const storage = createFakeStorage();
+    const db = new CipherDB(new LocalStorageDB(storage), cipher);
+
+    db.set('key', { email: 'user@example.com' });
+
+    expect(storage.getItem('key')).not.toContain('user@example.com');
+    expect(db.get('key')).toEqual({ email: 'user@example.com' });
+  });
+
+  it('should return null for missing values', () => {
+    const db = new CipherDB(new LocalStorageDB(createFakeStorage()), cipher);
+
+    expect(db.get('missing')).toBeNull();
+  });
+
+  it('should use given codec', () => {
+    const db = new CipherDB(new LocalStorageDB(createFakeStorage()), cipher, { codec: extendedJsonCodec });
+
+    db.set('key', { at: new Date(0) });
+
+    expect(db.get<{ at: Date }>('key')!.at).toEqual(new Date(0));
+  });
+
+  it('should compress values before encryption', () => {
+    const storage = createFakeStorage();
+    const db = new CipherDB(new LocalStorageDB(storage), cipher, { compression: lzCompressor, compressionThreshold: 10 });
+    const value = { text: 'repeated '.repeat(100) };
+
+    db.set('key', value);
+
+    expect(storage.getItem('key')!.length).toBeLessThan(JSON.stringify(value).length / 3);
+    expect(db.get('key')).toEqual(value);
+  });
+
+  it('should read values stored without compression', () => {
+    const storage = createFakeStorage();
+    new CipherDB(new LocalStorageDB(storage), cipher).set('key', { theme: 'dark' });
+    const db = new CipherDB(new LocalStorageDB(storage), cipher, { compression: lzCompressor });
+
+    expect(db.get('key')).toEqual({ theme: 'dark' });
+  });
+
+  it('should throw corrupted entry error for tampered values', () => {
+    const storage = createFakeStorage();
+    const db = new CipherDB(new LocalStorageDB(storage), cipher);
+    db.set('key', { theme: 'dark' });
+    storage.setItem('key', JSON.stringify(createStreamCipher('other').encrypt('{"theme":"light"}')));
+
+    expect(() => db.get('key')).toThrow(CorruptedEntryError);
+  });
+
+  it('should read values stored before encryption was enabled and encrypt them on write', () => {
+    const storage = createFakeStorage({ key: '{"theme":"dark"}', text: '"plain"' });
+    const db = new CipherDB(new LocalStorageDB(storage), cipher);
+
+    expect(db.get('key')).toEqual({ theme: 'dark' });
+    expect(db.get('text')).toBe('plain');
+
+    db.set('key', { theme: 'light' });
+
+    expect(storage.getItem('key')).not.toContain('light');
+    expect(db.get('key')).toEqual({ theme: 'light' });
+  });
+
+  it('should remove values from wrapped database', () => {
+    const storage = createFakeStorage();
+    const db = new CipherDB(new LocalStorageDB(storage), cipher);
+    db.set('key', 1);
+
+    db.remove('key');
+
+    expect(storage.getItem('key')).toBeNull();
+  });
+
+  it('should list and clear keys of wrapped database', () => {
+    const db = new CipherDB(new MemoryDB(), cipher);
+    db.set('app/a', 1);
+    db.set('other/b', 2);
+
+    expect(db.keys('app/')).toEqual(['app/a']);
+    db.clear('app/');
+    expect(db.keys()).toEqual(['other/b']);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { extendedJsonCodec, jsonCodec } from '../codec';
+
+describe('jsonCodec', () => {
+  it('should round-trip JSON values', () => {
+    const value = { name: 'test', list: [1, 'two', { three: true }], empty: null };
+    expect(jsonCodec.decode(jsonCodec.encode(value))).toEqual(value);
+  });
+
+  it('should round-trip plain strings', () => {
+    expect(jsonCodec.encode('hello world')).toBe('"hello world"');
+    expect(jsonCodec.decode(jsonCodec.encode('hello world'))).toBe('hello world');
+  });
+
+  it('should store maps as entries and sets as values', () => {
+    expect(jsonCodec.encode({ byId: new Map([['a', 1]]), tags: new Set(['x']) }))
+      .toBe('{"byId":[["a",1]],"tags":["x"]}');
+  });
+
+  it('should throw on malformed input', () => {
+    expect(() => jsonCodec.decode('{not json')).toThrow();
+  });
+});
+
+describe('extendedJsonCodec', () => {
+  const roundTrip = <T>(value: T): T => extendedJsonCodec.decode<T>(extendedJsonCodec.encode(value));
+
+  it('should round-trip JSON values', () => {
+    const value = { name: 'test', list: [1, 'two', { three: true }], empty: null };
+    expect(roundTrip(value)).toEqual(value);
+    expect(roundTrip('hello world')).toBe('hello world');
+  });
+
+  it('should round-trip dates', () => {
+    const date = new Date('2024-01-01T12:30:00.000Z');
+
+    const result = roundTrip({ createdAt: date });
+
+    expect(result.createdAt).toBeInstanceOf(Date);
+    expect(result.createdAt.getTime()).toBe(date.getTime());
+  });
+
+  it('should round-trip maps and sets with nested values', () => {
+    const value = {
+      byId: new Map<string, { at: Date }>([['a', { at: new Date(0) }]]),
+      tags: new Set(['x', 'y']),
+    };
+
+    const result = roundTrip(value);
+
+    expect(result.byId).toBeInstanceOf(Map);
+    expect(result.byId.get('a')!.at).toEqual(new Date(0));
+    expect(result.tags).toBeInstanceOf(Set);
+    expect([...result.tags]).toEqual(['x', 'y']);
+  });
+
+  it('should round-trip bigint values', () => {
+    expect(roundTrip({ big: BigInt('12345678901234567890') }).big).toBe(BigInt('12345678901234567890'));
+  });
+
+  it('should round-trip special numbers', () => {
+    const result = roundTrip({ nan: NaN, inf: Infinity, negInf: -Infinity, zero: 0 });
+
+    expect(result.nan).toBeNaN();
+    expect(result.inf).toBe(Infinity);
+    expect(result.negInf).toBe(-Infinity);
+    expect(result.zero).toBe(0);
+  });
+
+  it('should keep undefined fields and array items', () => {
+    const result = roundTrip({ missing: undefined, list: [1, undefined] });
+
+    expect('missing' in result).toBe(true);
+    expect(result.missing).toBeUndefined();
+    expect(result.list).toEqual([1, undefined]);
+    expect(roundTrip(undefined)).toBeUndefined();
+  });
+});
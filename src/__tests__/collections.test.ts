@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { proxyMap, proxySet } from 'valtio/utils';
+import { isMapLike, isSetLike } from '../collections';
+
+describe('collections', () => {
+  it('should recognise native and valtio maps', () => {
+    expect(isMapLike(new Map())).toBe(true);
+    expect(isMapLike(proxyMap())).toBe(true);
+    expect(isMapLike(new Set())).toBe(false);
+    expect(isMapLike({})).toBe(false);
+    expect(isMapLike(null)).toBe(false);
+  });
+
+  it('should recognise native and valtio sets', () => {
+    expect(isSetLike(new Set())).toBe(true);
+    expect(isSetLike(proxySet())).toBe(true);
+    expect(isSetLike(new Map())).toBe(false);
+    expect(isSetLike([])).toBe(false);
+    expect(isSetLike(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { lzCompressor } from '../compression';
+
+describe('lzCompressor', () => {
+  const roundTrip = (input: string) => lzCompressor.decompress(lzCompressor.compress(input));
+
+  it('should round-trip empty string', () => {
+    expect(lzCompressor.compress('')).toBe('');
+    expect(roundTrip('')).toBe('');
+  });
+
+  it('should round-trip short strings', () => {
+    expect(roundTrip('a')).toBe('a');
+    expect(roundTrip('aaaaaaa')).toBe('aaaaaaa');
+    expect(roundTrip('abababababab')).toBe('abababababab');
+  });
+
+  it('should round-trip unicode strings', () => {
+    const input = 'Привет, 世界! 😀 \u0000 ￿ café';
+    expect(roundTrip(input)).toBe(input);
+  });
+
+  it('should round-trip random strings', () => {
+    const alphabets = ['ab', '{}":,abc0123', 'aé漢😀\u0000'];
+    for (let i = 0; i < 200; i++) {
+      const alphabet = alphabets[i % alphabets.length];
+      const input = Array.from({ length: i * 3 }, (_, j) => alphabet[(i * 7 + j * j) % alphabet.length]).join('');
+      expect(roundTrip(input)).toBe(input);
+    }
+  });
+
+  it('should compress repetitive JSON several times', () => {
+    const input = JSON.stringify(Array.from({ length: 500 }, (_, id) => ({ id, title: `Block ${id}`, done: false })));
+
+    const compressed = lzCompressor.compress(input);
+
+    expect(compressed.length * 4).toBeLessThan(input.length);
+    expect(lzCompressor.decompress(compressed)).toBe(input);
+  });
+
+  it('should produce characters safe for storage', () => {
+    const compressed = lzCompressor.compress(JSON.stringify({ text: 'Ab😀'.repeat(100) }));
+
+    for (const char of compressed) {
+      const code = char.charCodeAt(0);
+      expect(code).toBeGreaterThanOrEqual(32);
+      expect(code).toBeLessThan(0xd800);
+    }
+  });
+
+  it('should throw on malformed data', () => {
+    const compressed = lzCompressor.compress('some value to compress');
+    expect(() => lzCompressor.decompress(compressed.slice(0, 2))).toThrow();
+  });
+
+  it('should use marker which is not valid start of JSON', () => {
+    expect(() => JSON.parse(lzCompressor.marker)).toThrow();
+  });
+});
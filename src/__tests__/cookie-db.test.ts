@@ -0,0 +1,211 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { CookieDB } from '../cookie-db';
+import { extendedJsonCodec } from '../codec';
+import { CorruptedEntryError } from '../errors';
+import { cache } from '../cache';
+
+/** Minimal cookie jar, which behaves like `document.cookie` */
+const createFakeDocument = () => {
+  const jar = new Map<string, string>();
+  const written: string[] = [];
+  return {
+    jar,
+    written,
+    get cookie() {
+      return [...jar].map(([name, value]) => `${name}=${value}`).join('; ');
+    },
+    set cookie(cookie: string) {
+      written.push(cookie);
+      const [pair, ...attributes] = cookie.split('; ');
+      const separator = pair.indexOf('=');
+      const name = pair.slice(0, separator);
+      if (attributes.includes('Max-Age=0')) {
+        jar.delete(name);
+      } else {
+        jar.set(name, pair.slice(separator + 1));
+      }
+    },
+  };
+};
+
+describe('CookieDB', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('in browser', () => {
+    it('should round-trip values through document.cookie', () => {
+      const document = createFakeDocument();
+      vi.stubGlobal('document', document);
+      const db = new CookieDB();
+
+      db.set('valtio/v1.0/theme', { mode: 'dark; bold=1' });
+
+      expect(document.jar.get('valtio%2Fv1.0%2Ftheme')).toBe(encodeURIComponent('{"mode":"dark; bold=1"}'));
+      expect(db.get('valtio/v1.0/theme')).toEqual({ mode: 'dark; bold=1' });
+    });
+
+    it('should return null for missing cookies', () => {
+      vi.stubGlobal('document', createFakeDocument());
+
+      expect(new CookieDB().get('missing')).toBeNull();
+    });
+
+    it('should write cookie attributes', () => {
+      const document = createFakeDocument();
+      vi.stubGlobal('document', document);
+      const db = new CookieDB({ path: '/app', domain: 'example.com', sameSite: 'none', maxAge: 60 });
+
+      db.set('key', 1);
+
+      expect(document.written).toEqual(['key=1; Max-Age=60; Path=/app; Domain=example.com; SameSite=None; Secure']);
+    });
+
+    it('should use lax same site policy and one year lifetime by default', () => {
+      const document = createFakeDocument();
+      vi.stubGlobal('document', document);
+
+      new CookieDB().set('key', 1);
+
+      expect(document.written).toEqual(['key=1; Max-Age=31536000; Path=/; SameSite=Lax']);
+    });
+
+    it('should remove cookies', () => {
+      const document = createFakeDocument();
+      vi.stubGlobal('document', document);
+      const db = new CookieDB();
+      db.set('key', 1);
+
+      db.remove('key');
+
+      expect(db.get('key')).toBeNull();
+      expect(document.jar.size).toBe(0);
+    });
+
+    it('should split long values into chunks', () => {
+      const document = createFakeDocument();
+      vi.stubGlobal('document', document);
+      const db = new CookieDB({ chunkSize: 10 });
+      const value = { text: 'x'.repeat(25) };
+
+      db.set('key', value);
+
+      const encoded = encodeURIComponent(JSON.stringify(value));
+      expect(document.jar.get('key')).toBe(`~chunks:${Math.ceil(encoded.length / 10)}`);
+      expect([...document.jar.values()].every(cookie => cookie.length <= 10)).toBe(true);
+      expect(db.get('key')).toEqual(value);
+    });
+
+    it('should remove stale chunks when value becomes shorter', () => {
+      const document = createFakeDocument();
+      vi.stubGlobal('document', document);
+      const db = new CookieDB({ chunkSize: 10 });
+      db.set('key', 'x'.repeat(30));
+
+      db.set('key', 1);
+
+      expect([...document.jar.keys()]).toEqual(['key']);
+      expect(db.get('key')).toBe(1);
+    });
+
+    it('should remove all chunks', () => {
+      const document = createFakeDocument();
+      vi.stubGlobal('document', document);
+      const db = new CookieDB({ chunkSize: 10 });
+      db.set('key', 'x'.repeat(30));
+
+      db.remove('key');
+
+      expect(document.jar.size).toBe(0);
+    });
+
+    it('should list and clear keys under prefix', () => {
+      const document = createFakeDocument();
+      vi.stubGlobal('document', document);
+      const db = new CookieDB({ chunkSize: 10 });
+      db.set('app/short', 1);
+      db.set('app/long', 'value longer than chunk');
+      db.set('other/key', 2);
+
+      expect(db.keys('app/')).toEqual(['app/short', 'app/long']);
+
+      db.clear('app/');
+
+      expect(db.keys()).toEqual(['other/key']);
+      expect([...document.jar.keys()]).toEqual(['other%2Fkey']);
+    });
+
+    it('should throw corrupted entry error when chunk is missing', () => {
+      const document = createFakeDocument();
+      vi.stubGlobal('document', document);
+      const db = new CookieDB({ chunkSize: 10 });
+      db.set('key', 'x'.repeat(30));
+      document.jar.delete('key.1');
+
+      expect(() => db.get('key')).toThrow(CorruptedEntryError);
+    });
+
+    it('should throw corrupted entry error for malformed values', () => {
+      const document = createFakeDocument();
+      vi.stubGlobal('document', document);
+      document.jar.set('key', '%7Bbroken');
+
+      expect(() => new CookieDB().get('key')).toThrow(CorruptedEntryError);
+    });
+
+    it('should use given codec', () => {
+      vi.stubGlobal('document', createFakeDocument());
+      const db = new CookieDB({ codec: extendedJsonCodec });
+
+      db.set('key', new Date(0));
+
+      expect(db.get('key')).toEqual(new Date(0));
+    });
+  });
+
+  describe('on server', () => {
+    it('should read values from cookie header', () => {
+      const db = new CookieDB({ cookieHeader: `session=abc; valtio%2Fv1.0%2Ftheme=${encodeURIComponent('"dark"')}` });
+
+      expect(db.get('valtio/v1.0/theme')).toBe('dark');
+      expect(db.get('missing')).toBeNull();
+    });
+
+    it('should join chunks from cookie header', () => {
+      const db = new CookieDB({ cookieHeader: 'key=~chunks:2; key.0=%22hel; key.1=lo%22' });
+
+      expect(db.get('key')).toBe('hello');
+    });
+
+    it('should report writes as set-cookie headers', () => {
+      const onSetCookie = vi.fn();
+      const db = new CookieDB({ cookieHeader: 'key=1', onSetCookie });
+
+      db.set('key', 2);
+      db.remove('other');
+
+      expect(onSetCookie.mock.calls).toEqual([
+        ['key=2; Max-Age=31536000; Path=/; SameSite=Lax'],
+        ['other=; Max-Age=0; Path=/; SameSite=Lax'],
+      ]);
+    });
+
+    it('should read own writes', () => {
+      const db = new CookieDB({ cookieHeader: 'key=1' });
+
+      db.set('key', 2);
+      expect(db.get('key')).toBe(2);
+
+      db.remove('key');
+      expect(db.get('key')).toBeNull();
+    });
+
+    it('should render persisted state of cache', () => {
+      const db = new CookieDB({ cookieHeader: `valtio%2Fv1.0%2Ftheme=${encodeURIComponent('{"mode":"dark"}')}` });
+
+      const theme = cache({ key: 'theme', db }, { mode: 'light' });
+
+      expect(theme.mode).toBe('dark');
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { isCacheEntry, unwrapEntry, wrapEntry } from '../entry';
+
+describe('entry', () => {
+  describe('wrapEntry', () => {
+    it('should wrap data with metadata', () => {
+      expect(wrapEntry({ count: 1 }, { version: 2 })).toEqual({
+        __valtioCache: { version: 2 },
+        data: { count: 1 },
+      });
+    });
+  });
+
+  describe('isCacheEntry', () => {
+    it('should recognise wrapped values', () => {
+      expect(isCacheEntry(wrapEntry({}, { version: 1 }))).toBe(true);
+    });
+
+    it('should not recognise plain values', () => {
+      expect(isCacheEntry(null)).toBe(false);
+      expect(isCacheEntry('string')).toBe(false);
+      expect(isCacheEntry([])).toBe(false);
+      expect(isCacheEntry({ data: 1 })).toBe(false);
+      expect(isCacheEntry({ __valtioCache: null, data: 1 })).toBe(false);
+    });
+  });
+
+  describe('unwrapEntry', () => {
+    it('should split wrapped value to data and metadata', () => {
+      expect(unwrapEntry(wrapEntry({ count: 1 }, { version: 2 }))).toEqual({
+        data: { count: 1 },
+        meta: { version: 2 },
+      });
+    });
+
+    it('should return legacy values as data without metadata', () => {
+      expect(unwrapEntry({ count: 1 })).toEqual({ data: { count: 1 }, meta: null });
+    });
+
+    it('should return null data for empty values', () => {
+      expect(unwrapEntry(null)).toEqual({ data: null, meta: null });
+      expect(unwrapEntry(undefined)).toEqual({ data: null, meta: null });
+    });
+  });
+});
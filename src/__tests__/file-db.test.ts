@@ -0,0 +1,273 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { FileDB } from '../file-db';
+import { extendedJsonCodec } from '../codec';
+import { CorruptedEntryError } from '../errors';
+import { cache } from '../cache';
+
+describe('FileDB', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'valtio-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should require directory or file', () => {
+    expect(() => new FileDB({ fs })).toThrow('requires either directory or file');
+  });
+
+  describe('with directory', () => {
+    it('should store every key in separate file', () => {
+      const db = new FileDB({ fs, directory: `${directory}/store` });
+
+      db.set('valtio/v1.0/settings', { theme: 'dark' });
+      db.set('other', 1);
+
+      expect(fs.readdirSync(`${directory}/store`).sort()).toEqual(['other.json', 'valtio%2Fv1.0%2Fsettings.json']);
+      expect(db.get('valtio/v1.0/settings')).toEqual({ theme: 'dark' });
+    });
+
+    it('should return null for missing keys', () => {
+      const db = new FileDB({ fs, directory });
+
+      expect(db.get('missing')).toBeNull();
+    });
+
+    it('should remove files', () => {
+      const db = new FileDB({ fs, directory });
+      db.set('key', 1);
+
+      db.remove('key');
+      db.remove('missing');
+
+      expect(db.get('key')).toBeNull();
+      expect(fs.readdirSync(directory)).toEqual([]);
+    });
+
+    it('should list and clear keys under prefix', () => {
+      const db = new FileDB({ fs, directory: `${directory}/state` });
+      expect(db.keys()).toEqual([]);
+      db.set('app/a', 1);
+      db.set('app/b', 2);
+      db.set('other/c', 3);
+
+      expect(db.keys('app/').sort()).toEqual(['app/a', 'app/b']);
+
+      db.clear('app/');
+
+      expect(db.keys()).toEqual(['other/c']);
+    });
+
+    it('should skip files not written by database when listing keys', () => {
+      const db = new FileDB({ fs, directory });
+      db.set('app/a', 1);
+      fs.writeFileSync(`${directory}/100%.json`, '{}');
+
+      expect(db.keys()).toEqual(['app/a']);
+      db.clear();
+      expect(fs.readdirSync(directory)).toEqual(['100%.json']);
+    });
+
+    it('should not leave temporary files', () => {
+      const db = new FileDB({ fs, directory });
+
+      db.set('key', 1);
+      db.set('key', 2);
+
+      expect(fs.readdirSync(directory)).toEqual(['key.json']);
+    });
+
+    it('should keep previous content when write fails', () => {
+      const db = new FileDB({ fs, directory });
+      db.set('key', 1);
+      const renameSync = vi.spyOn(fs, 'renameSync').mockImplementationOnce(() => {
+        throw new Error('disk failure');
+      });
+
+      expect(() => db.set('key', 2)).toThrow('disk failure');
+      expect(db.get('key')).toBe(1);
+      expect(fs.readdirSync(directory)).toEqual(['key.json']);
+      renameSync.mockRestore();
+    });
+
+    it('should throw corrupted entry error for malformed files', () => {
+      fs.writeFileSync(`${directory}/key.json`, '{broken');
+      const db = new FileDB({ fs, directory });
+
+      expect(() => db.get('key')).toThrow(CorruptedEntryError);
+    });
+
+    it('should use given codec', () => {
+      const db = new FileDB({ fs, directory, codec: extendedJsonCodec });
+
+      db.set('key', new Set([1, 2]));
+
+      expect(db.get('key')).toEqual(new Set([1, 2]));
+    });
+  });
+
+  describe('with single file', () => {
+    it('should store all keys in one file', () => {
+      const file = `${directory}/nested/store.json`;
+      const db = new FileDB({ fs, file });
+
+      db.set('a', { value: 1 });
+      db.set('b', 'text');
+
+      expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toEqual({ a: '{"value":1}', b: '"text"' });
+      expect(new FileDB({ fs, file }).get('a')).toEqual({ value: 1 });
+      expect(db.get('missing')).toBeNull();
+    });
+
+    it('should remove keys', () => {
+      const file = `${directory}/store.json`;
+      const db = new FileDB({ fs, file });
+      db.set('a', 1);
+      db.set('b', 2);
+
+      db.remove('a');
+
+      expect(db.get('a')).toBeNull();
+      expect(db.get('b')).toBe(2);
+    });
+
+    it('should store file given by bare name in working directory', () => {
+      const cwd = process.cwd();
+      process.chdir(directory);
+      try {
+        const db = new FileDB({ fs, file: 'store.json', lock: true });
+
+        db.set('a', 1);
+
+        expect(fs.readdirSync(directory)).toEqual(['store.json']);
+        expect(db.get('a')).toBe(1);
+      } finally {
+        process.chdir(cwd);
+      }
+    });
+
+    it('should list and clear keys under prefix', () => {
+      const db = new FileDB({ fs, file: `${directory}/store.json` });
+      db.set('app/a', 1);
+      db.set('other/b', 2);
+
+      expect(db.keys('app/')).toEqual(['app/a']);
+
+      db.clear('app/');
+
+      expect(db.keys()).toEqual(['other/b']);
+    });
+
+    it('should report corrupted store file', () => {
+      const file = `${directory}/store.json`;
+      fs.writeFileSync(file, '{broken');
+
+      expect(() => new FileDB({ fs, file }).get('a')).toThrow(CorruptedEntryError);
+    });
+
+    it('should overwrite corrupted store file on write', () => {
+      const file = `${directory}/store.json`;
+      fs.writeFileSync(file, '{broken');
+      const db = new FileDB({ fs, file });
+
+      db.set('a', 1);
+
+      expect(db.get('a')).toBe(1);
+    });
+  });
+
+  describe('lock option', () => {
+    it('should release lock after write', () => {
+      const db = new FileDB({ fs, file: `${directory}/store.json`, lock: true });
+
+      db.set('a', 1);
+      db.set('b', 2);
+
+      expect(fs.readdirSync(directory)).toEqual(['store.json']);
+      expect(db.get('a')).toBe(1);
+    });
+
+    it('should take over abandoned lock after timeout', () => {
+      fs.writeFileSync(`${directory}/key.json.lock`, '');
+      const db = new FileDB({ fs, directory, lock: true, lockTimeout: 20 });
+
+      db.set('key', 1);
+
+      expect(db.get('key')).toBe(1);
+      expect(fs.readdirSync(directory)).toEqual(['key.json']);
+    });
+
+    it('should take over lock left long ago right away', () => {
+      const lockPath = `${directory}/key.json.lock`;
+      fs.writeFileSync(lockPath, '');
+      fs.utimesSync(lockPath, new Date(0), new Date(0));
+      const wait = vi.spyOn(Atomics, 'wait');
+      const db = new FileDB({ fs, directory, lock: true });
+
+      db.set('key', 1);
+
+      expect(db.get('key')).toBe(1);
+      expect(wait).not.toHaveBeenCalled();
+      wait.mockRestore();
+    });
+
+    it('should sleep while lock is held by other process', () => {
+      const lockPath = `${directory}/key.json.lock`;
+      fs.writeFileSync(lockPath, '');
+      const wait = vi.spyOn(Atomics, 'wait').mockImplementation(() => {
+        // Other process releases lock on the second attempt
+        if (wait.mock.calls.length === 2) {
+          fs.unlinkSync(lockPath);
+        }
+        return 'timed-out';
+      });
+      const db = new FileDB({ fs, directory, lock: true, lockTimeout: 60000 });
+
+      db.set('key', 1);
+
+      expect(wait).toHaveBeenCalledTimes(2);
+      expect(db.get('key')).toBe(1);
+      wait.mockRestore();
+    });
+
+    it('should take over abandoned lock only once', () => {
+      const lockPath = `${directory}/key.json.lock`;
+      fs.writeFileSync(lockPath, '');
+      fs.utimesSync(lockPath, new Date(0), new Date(0));
+      // Abandoned lock cannot be removed
+      const unlinkSync = vi.spyOn(fs, 'unlinkSync').mockImplementation(() => {});
+      const db = new FileDB({ fs, directory, lock: true });
+
+      expect(() => db.set('key', 1)).toThrow('Cannot take over abandoned lock');
+      expect(unlinkSync).toHaveBeenCalledTimes(1);
+      unlinkSync.mockRestore();
+    });
+
+    it('should release lock when write fails', () => {
+      const db = new FileDB({ fs, directory, lock: true });
+      const writeFileSync = vi.spyOn(fs, 'writeFileSync').mockImplementationOnce(() => {
+        throw new Error('disk failure');
+      });
+
+      expect(() => db.set('key', 1)).toThrow('disk failure');
+      expect(fs.readdirSync(directory)).toEqual([]);
+      writeFileSync.mockRestore();
+    });
+  });
+
+  it('should persist cache state between runs', async () => {
+    const db = new FileDB({ fs, directory });
+
+    const first = cache({ key: 'settings', db }, { theme: 'light' });
+    first.theme = 'dark';
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(cache({ key: 'settings', db: new FileDB({ fs, directory }) }, { theme: 'light' }).theme).toBe('dark');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+import { cache, disposeCache } from '../cache';
+import { extendedJsonCodec } from '../codec';
+import { CorruptedEntryError } from '../errors';
+import { collectCachePayload, hydrateFromPayload, serializeCachePayload } from '../hydration';
+import { DumbDb, MemoryDB } from '../sync-db';
+
+describe('collectCachePayload', () => {
+  it('should collect stored values of created caches', () => {
+    const theme = cache({ key: 'theme', prefix: 'collect/', db: new DumbDb() }, { mode: 'light' });
+    cache({ key: 'user', prefix: 'collect/', db: new DumbDb(), version: 2 }, { name: 'Ann' });
+    theme.mode = 'dark';
+
+    expect(collectCachePayload({ prefix: 'collect/' })).toEqual({
+      'collect/theme': { mode: 'dark' },
+      'collect/user': { __valtioCache: { version: 2 }, data: { name: 'Ann' } },
+    });
+  });
+
+  it('should skip excluded fields', () => {
+    cache({ key: 'session', prefix: 'exclude/', db: new DumbDb(), exclude: ['token'] }, { user: 'Ann', token: 'secret' });
+
+    expect(collectCachePayload({ prefix: 'exclude/' })).toEqual({ 'exclude/session': { user: 'Ann' } });
+  });
+
+  it('should skip disposed caches', () => {
+    const state = cache({ key: 'theme', prefix: 'disposed/', db: new DumbDb() }, { mode: 'light' });
+
+    disposeCache(state);
+
+    expect(collectCachePayload({ prefix: 'disposed/' })).toEqual({});
+  });
+});
+
+describe('serializeCachePayload', () => {
+  it('should escape characters which break inline script', () => {
+    const serialized = serializeCachePayload({ key: { html: '</script><script>alert(1)</script>', line: '\u2028' } });
+
+    expect(serialized).not.toContain('</script>');
+    expect(serialized).not.toContain('\u2028');
+    expect(JSON.parse(serialized)).toEqual({ key: { html: '</script><script>alert(1)</script>', line: '\u2028' } });
+  });
+
+  it('should use given codec', () => {
+    const serialized = serializeCachePayload({ key: { at: new Date(0) } }, extendedJsonCodec);
+
+    expect(extendedJsonCodec.decode(serialized)).toEqual({ key: { at: new Date(0) } });
+  });
+});
+
+describe('hydrateFromPayload', () => {
+  it('should seed database before cache is created', () => {
+    const db = new MemoryDB();
+
+    hydrateFromPayload({ 'seed/theme': { mode: 'dark' } }, { db });
+    const theme = cache({ key: 'theme', prefix: 'seed/', db }, { mode: 'light' });
+
+    expect(theme.mode).toBe('dark');
+  });
+
+  it('should accept serialized payload', () => {
+    const db = new MemoryDB();
+
+    hydrateFromPayload(serializeCachePayload({ 'string/theme': { mode: 'dark' } }), { db });
+
+    expect(db.get('string/theme')).toEqual({ mode: 'dark' });
+  });
+
+  it('should update already created caches', async () => {
+    const db = new MemoryDB();
+    const theme = cache({ key: 'theme', prefix: 'created/', db }, { mode: 'light', size: 1 });
+
+    hydrateFromPayload({ 'created/theme': { mode: 'dark', size: 1 } });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(theme.mode).toBe('dark');
+    expect(db.get('created/theme')).toEqual({ mode: 'dark', size: 1 });
+  });
+
+  it('should persist changes made right after hydration', async () => {
+    const db = new MemoryDB();
+    const counter = cache({ key: 'counter', prefix: 'changed/', db }, { n: 0 });
+
+    hydrateFromPayload({ 'changed/counter': { n: 2 } });
+    counter.n = 3;
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(counter.n).toBe(3);
+    expect(db.get('changed/counter')).toEqual({ n: 3 });
+  });
+
+  it('should keep values persisted on the client', async () => {
+    const db = new MemoryDB({ 'kept/theme': { mode: 'dark' }, 'kept/created': { mode: 'dark' } });
+    const created = cache({ key: 'created', prefix: 'kept/', db }, { mode: 'light' });
+
+    hydrateFromPayload({ 'kept/theme': { mode: 'light' }, 'kept/created': { mode: 'light' } }, { db });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(db.get('kept/theme')).toEqual({ mode: 'dark' });
+    expect(db.get('kept/created')).toEqual({ mode: 'dark' });
+    expect(created.mode).toBe('dark');
+  });
+
+  it('should replace corrupted values', () => {
+    const db = {
+      get: () => {
+        throw new CorruptedEntryError('broken/theme', '{broken');
+      },
+      set: vi.fn(),
+    };
+
+    hydrateFromPayload({ 'broken/theme': { mode: 'dark' } }, { db });
+
+    expect(db.set).toHaveBeenCalledWith('broken/theme', { mode: 'dark' });
+  });
+
+  it('should round-trip state from server to client', () => {
+    const serverState = cache({ key: 'theme', prefix: 'ssr/', db: new DumbDb(), version: 1 }, { mode: 'light' });
+    serverState.mode = 'dark';
+    const payload = serializeCachePayload(collectCachePayload({ prefix: 'ssr/' }));
+    disposeCache(serverState);
+
+    const db = new MemoryDB();
+    hydrateFromPayload(payload, { db });
+    const clientState = cache({ key: 'theme', prefix: 'ssr/', db, version: 1 }, { mode: 'light' });
+
+    expect(clientState.mode).toBe('dark');
+  });
+});
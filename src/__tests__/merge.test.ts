@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { deepMerge } from '../merge';
+import { proxyMap, proxySet } from 'valtio/utils';
+import { deepMerge, mergeArrays, mergeOmitted, omitShape, pickShape, pruneFields } from '../merge';
 
 describe('deepMerge', () => {
   describe('primitive values', () => {
@@ -292,15 +293,13 @@ describe('deepMerge', () => {
       expect(source).toEqual(originalSource);
     });
 
-    it('should handle Date objects by preserving original (no enumerable props)', () => {
+    it('should replace Date objects with restored ones', () => {
       const target = { date: new Date('2023-01-01') };
       const source = { date: new Date('2023-12-01') };
       
       deepMerge(target, source);
       
-      // Date objects are treated as objects and merged recursively
-      // This keeps the original date because Date objects don't have enumerable properties
-      expect(target.date).toEqual(new Date('2023-01-01'));
+      expect(target.date).toBe(source.date);
     });
 
     it('should handle RegExp objects by preserving original (no enumerable props)', () => {
@@ -360,6 +359,50 @@ describe('deepMerge', () => {
     });
   });
 
+  describe('collections', () => {
+    it('should restore map from array of entries', () => {
+      const byId = new Map([['default', 1]]);
+      const target = { byId };
+
+      deepMerge(target, { byId: [['a', 2], ['b', 3]] });
+
+      expect(target.byId).toBe(byId);
+      expect([...target.byId]).toEqual([['a', 2], ['b', 3]]);
+    });
+
+    it('should restore set from array of values', () => {
+      const tags = new Set(['default']);
+      const target = { tags };
+
+      deepMerge(target, { tags: ['x', 'y'] });
+
+      expect(target.tags).toBe(tags);
+      expect([...target.tags]).toEqual(['x', 'y']);
+    });
+
+    it('should restore native collections into valtio collections', () => {
+      const target = { byId: proxyMap<string, number>(), tags: proxySet<string>() };
+      const { byId, tags } = target;
+
+      deepMerge(target, { byId: new Map([['a', 1]]), tags: new Set(['x']) });
+
+      expect(target.byId).toBe(byId);
+      expect(target.byId.get('a')).toBe(1);
+      expect(target.tags).toBe(tags);
+      expect(target.tags.has('x')).toBe(true);
+    });
+
+    it('should keep collection when stored value is not compatible', () => {
+      const byId = new Map([['a', 1]]);
+      const target = { byId };
+
+      deepMerge(target, { byId: {} });
+
+      expect(target.byId).toBe(byId);
+      expect(target.byId.get('a')).toBe(1);
+    });
+  });
+
   describe('valtio-specific behavior', () => {
     it('should handle object replacement when target property is falsy', () => {
       const target = { config: null };
@@ -406,4 +449,135 @@ describe('deepMerge', () => {
       expect(target).toEqual({ config: { theme: 'dark' } });
     });
   });
-}); 
\ No newline at end of file
+});
+
+describe('pruneFields', () => {
+  it('should remove fields not present in source', () => {
+    const target = { a: 1, b: 2, nested: { c: 3, d: 4 } };
+
+    pruneFields(target, { a: 0, nested: { c: 0 } });
+
+    expect(target).toEqual({ a: 1, nested: { c: 3 } });
+  });
+
+  it('should keep methods and getters', () => {
+    const target = {
+      count: 1,
+      extra: 2,
+      get double() { return this.count * 2; },
+      increment() { this.count++; },
+    };
+
+    pruneFields(target, { count: 0 });
+
+    expect(Object.keys(target)).toEqual(['count', 'double', 'increment']);
+  });
+
+  it('should not prune inside arrays and collections', () => {
+    const target = { items: [{ a: 1, b: 2 }], map: new Map([['a', 1]]) };
+
+    pruneFields(target, { items: [{ a: 1 }], map: new Map() });
+
+    expect(target).toEqual({ items: [{ a: 1, b: 2 }], map: new Map([['a', 1]]) });
+  });
+});
+
+describe('pickShape', () => {
+  it('should keep only fields present in shape', () => {
+    const data = { a: 1, removed: 2, nested: { b: 3, removed: 4 } };
+
+    expect(pickShape(data, { a: 0, nested: { b: 0 } })).toEqual({ a: 1, nested: { b: 3 } });
+    expect(data.removed).toBe(2);
+  });
+
+  it('should keep arrays, collections and values of other types as is', () => {
+    const data = { items: [{ a: 1, b: 2 }], map: new Map([['a', 1]]), value: { a: 1 } };
+
+    expect(pickShape(data, { items: [], map: new Map(), value: null })).toEqual(data);
+  });
+});
+
+describe('omitShape', () => {
+  it('should return fields not present in shape', () => {
+    const data = { a: 1, removed: 2, nested: { b: 3, removed: 4 }, other: { c: 5 } };
+
+    expect(omitShape(data, { a: 0, nested: { b: 0 }, other: { c: 0 } })).toEqual({ removed: 2, nested: { removed: 4 } });
+  });
+
+  it('should return undefined when all fields are present in shape', () => {
+    expect(omitShape({ a: 1, nested: { b: 2 } }, { a: 0, nested: { b: 0 } })).toBeUndefined();
+    expect(omitShape([1, 2], [])).toBeUndefined();
+  });
+});
+
+describe('mergeOmitted', () => {
+  it('should add omitted fields back', () => {
+    const target: any = { a: 1, nested: { b: 3 } };
+
+    mergeOmitted(target, { removed: 2, nested: { removed: 4 } });
+
+    expect(target).toEqual({ a: 1, removed: 2, nested: { b: 3, removed: 4 } });
+  });
+
+  it('should not change existing fields', () => {
+    const target: any = { a: 1, nested: null };
+
+    mergeOmitted(target, { a: 2, nested: { removed: 4 } });
+
+    expect(target).toEqual({ a: 1, nested: null });
+  });
+});
+
+describe('mergeArrays', () => {
+  it('should use stored array with replace strategy', () => {
+    expect(mergeArrays([1, 2], [3], 'replace')).toEqual([3]);
+  });
+
+  it('should use initial array with keep-initial strategy', () => {
+    expect(mergeArrays([1, 2], [3], 'keep-initial')).toEqual([1, 2]);
+  });
+
+  it('should merge items by index', () => {
+    const initial = [{ a: 1, b: 1 }, { a: 2, b: 2 }, 'initial'];
+    const stored = [{ a: 10 }, 'stored'];
+
+    expect(mergeArrays(initial, stored, 'merge-by-index')).toEqual([{ a: 10, b: 1 }, 'stored', 'initial']);
+    expect(mergeArrays([1], [1, 2, 3], 'merge-by-index')).toEqual([1, 2, 3]);
+  });
+
+  it('should append missing initial items with union strategy', () => {
+    expect(mergeArrays(['a', 'b', 'c'], ['c', 'd'], 'union')).toEqual(['c', 'd', 'a', 'b']);
+    expect(mergeArrays([{ id: 1 }, { id: 2 }], [{ id: 2 }], 'union')).toEqual([{ id: 2 }, { id: 1 }]);
+  });
+
+  it('should merge items by identity key', () => {
+    const initial = [
+      { id: 'sales', title: 'Sales', widgets: 2, shared: false },
+      { id: 'new', title: 'New dashboard', widgets: 1, shared: false },
+    ];
+    const stored = [
+      { id: 'custom', title: 'My dashboard', widgets: 5 },
+      { id: 'sales', title: 'My sales', widgets: 3 },
+    ];
+
+    expect(mergeArrays(initial, stored, { mergeBy: 'id' })).toEqual([
+      { id: 'custom', title: 'My dashboard', widgets: 5 },
+      { id: 'sales', title: 'My sales', widgets: 3, shared: false },
+      { id: 'new', title: 'New dashboard', widgets: 1, shared: false },
+    ]);
+  });
+
+  it('should keep stored items without identity key', () => {
+    expect(mergeArrays([{ id: 1 }], ['text', { name: 'a' }], { mergeBy: 'id' })).toEqual(['text', { name: 'a' }, { id: 1 }]);
+  });
+
+  it('should not mutate arguments', () => {
+    const initial = [{ id: 1, nested: { a: 1 } }];
+    const stored = [{ id: 1, nested: { b: 2 } }];
+
+    mergeArrays(initial, stored, { mergeBy: 'id' });
+
+    expect(initial).toEqual([{ id: 1, nested: { a: 1 } }]);
+    expect(stored).toEqual([{ id: 1, nested: { b: 2 } }]);
+  });
+});
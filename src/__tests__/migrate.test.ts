@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import { runMigrations } from '../migrate';
+
+describe('runMigrations', () => {
+  it('should apply migrations in version order', () => {
+    const result = runMigrations<string[]>([], 0, 3, {
+      3: (data: string[]) => [...data, 'three'],
+      1: (data: string[]) => [...data, 'one'],
+      2: (data: string[]) => [...data, 'two'],
+    });
+
+    expect(result).toEqual(['one', 'two', 'three']);
+  });
+
+  it('should apply only migrations after the stored version', () => {
+    const first = vi.fn((data: any) => data);
+    const second = vi.fn((data: any) => ({ ...data, migrated: true }));
+
+    const result = runMigrations({ value: 1 }, 1, 2, { 1: first, 2: second });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith({ value: 1 });
+    expect(result).toEqual({ value: 1, migrated: true });
+  });
+
+  it('should pass data through versions without migration', () => {
+    const result = runMigrations({ value: 1 }, 0, 3, {
+      2: (data: any) => ({ value: data.value + 1 }),
+    });
+
+    expect(result).toEqual({ value: 2 });
+  });
+
+  it('should return data as is when versions are equal', () => {
+    const data = { value: 1 };
+    expect(runMigrations(data, 2, 2, { 2: () => null })).toBe(data);
+  });
+
+  it('should work without migrations', () => {
+    const data = { value: 1 };
+    expect(runMigrations(data, 0, 2)).toBe(data);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { filterPaths, getPath, hasPath, omitPath, pathsOverlap, pickPaths, setPath, toKeys } from '../paths';
+
+describe('paths', () => {
+  describe('toKeys', () => {
+    it('should split dotted path', () => {
+      expect(toKeys('ui.sidebar.open')).toEqual(['ui', 'sidebar', 'open']);
+    });
+
+    it('should convert array path keys to strings', () => {
+      expect(toKeys(['items', 0, 'name'])).toEqual(['items', '0', 'name']);
+    });
+  });
+
+  describe('getPath', () => {
+    it('should return nested value', () => {
+      expect(getPath({ ui: { open: false } }, 'ui.open')).toBe(false);
+      expect(getPath({ items: [{ name: 'a' }] }, ['items', 0, 'name'])).toBe('a');
+    });
+
+    it('should return undefined for not existing path', () => {
+      expect(getPath({ ui: null }, 'ui.open')).toBeUndefined();
+      expect(getPath({}, 'ui.open')).toBeUndefined();
+    });
+  });
+
+  describe('setPath', () => {
+    it('should return copy with changed nested field', () => {
+      const data = { ui: { open: false, size: 1 }, items: [1, 2] };
+
+      const result = setPath(data, 'ui.open', true);
+
+      expect(result).toEqual({ ui: { open: true, size: 1 }, items: [1, 2] });
+      expect(data.ui.open).toBe(false);
+      expect(result.items).toBe(data.items);
+    });
+
+    it('should set array items and create missing objects', () => {
+      expect(setPath({ items: [1, 2] }, ['items', 1], 3)).toEqual({ items: [1, 3] });
+      expect(setPath({}, 'ui.open', true)).toEqual({ ui: { open: true } });
+    });
+  });
+
+  describe('hasPath', () => {
+    it('should check existence of nested field', () => {
+      expect(hasPath({ ui: { open: undefined } }, 'ui.open')).toBe(true);
+      expect(hasPath({ ui: {} }, 'ui.open')).toBe(false);
+      expect(hasPath(null, 'ui')).toBe(false);
+    });
+  });
+
+  describe('pathsOverlap', () => {
+    it('should detect paths where one is prefix of another', () => {
+      expect(pathsOverlap(['search'], ['search', 'results'])).toBe(true);
+      expect(pathsOverlap(['search', 'results', '0'], ['search', 'results'])).toBe(true);
+      expect(pathsOverlap(['search', 'results'], ['search', 'results'])).toBe(true);
+    });
+
+    it('should not match different branches', () => {
+      expect(pathsOverlap(['search', 'query'], ['search', 'results'])).toBe(false);
+      expect(pathsOverlap(['auth'], ['search', 'results'])).toBe(false);
+    });
+  });
+
+  describe('omitPath', () => {
+    it('should remove nested field without mutating data', () => {
+      const data = { session: { token: 'secret', user: 'john' }, theme: 'dark' };
+
+      const result = omitPath(data, 'session.token');
+
+      expect(result).toEqual({ session: { user: 'john' }, theme: 'dark' });
+      expect(data.session.token).toBe('secret');
+    });
+
+    it('should remove array items fields', () => {
+      expect(omitPath({ items: [{ draft: 1, id: 1 }] }, ['items', 0, 'draft'])).toEqual({ items: [{ id: 1 }] });
+    });
+
+    it('should return data as is when path not exists', () => {
+      const data = { theme: 'dark' };
+      expect(omitPath(data, 'session.token')).toBe(data);
+    });
+  });
+
+  describe('pickPaths', () => {
+    it('should keep only listed fields', () => {
+      const data = { ui: { sidebarOpen: true, modal: 'x' }, settings: { theme: 'dark' }, isLoading: true };
+
+      expect(pickPaths(data, ['ui.sidebarOpen', 'settings'])).toEqual({
+        ui: { sidebarOpen: true },
+        settings: { theme: 'dark' },
+      });
+    });
+
+    it('should skip not existing paths', () => {
+      expect(pickPaths({ theme: 'dark' }, ['ui.sidebarOpen'])).toEqual({});
+    });
+
+    it('should not mutate data for overlapping paths', () => {
+      const data = { ui: { a: 1, b: { c: 2, d: 3 } } };
+
+      const result = pickPaths(data, ['ui.b', 'ui.a']);
+
+      expect(result).toEqual({ ui: { a: 1, b: { c: 2, d: 3 } } });
+      expect(data).toEqual({ ui: { a: 1, b: { c: 2, d: 3 } } });
+    });
+
+    it('should return non objects as is', () => {
+      expect(pickPaths(null, ['a'])).toBeNull();
+    });
+  });
+
+  describe('filterPaths', () => {
+    const data = { ui: { sidebarOpen: true, loading: true }, session: { token: 'secret' } };
+
+    it('should return data as is without filters', () => {
+      expect(filterPaths(data, {})).toBe(data);
+    });
+
+    it('should apply include and then exclude lists', () => {
+      expect(filterPaths(data, { include: ['ui'], exclude: ['ui.loading'] })).toEqual({
+        ui: { sidebarOpen: true },
+      });
+    });
+  });
+});
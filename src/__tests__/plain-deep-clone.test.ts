@@ -1,4 +1,5 @@
 import { expect, test, describe } from 'vitest'
+import { proxyMap, proxySet } from 'valtio/utils'
 import { plainDeepClone, isPlainField } from '../plain-deep-clone'
 
 describe('plainDeepClone', () => {
@@ -51,6 +52,51 @@ describe('plainDeepClone', () => {
     expect(cloned.mixed).toEqual([1, 'hello', true])
   })
 
+  test('should clone dates', () => {
+    const original = { createdAt: new Date(0), history: [new Date(1)] }
+    const cloned = plainDeepClone(original)
+
+    expect(cloned.createdAt).toBeInstanceOf(Date)
+    expect(cloned.createdAt).not.toBe(original.createdAt)
+    expect(cloned.createdAt.getTime()).toBe(0)
+    expect(cloned.history[0]).toEqual(new Date(1))
+  })
+
+  test('should clone nested arrays', () => {
+    const original = { matrix: [[1, 2], [{ a: 3 }]] }
+    const cloned = plainDeepClone(original)
+
+    expect(cloned.matrix).toEqual([[1, 2], [{ a: 3 }]])
+    expect(Array.isArray(cloned.matrix[0])).toBe(true)
+  })
+
+  test('should clone maps and sets', () => {
+    const original = {
+      byId: new Map([['a', { name: 'A', greet() { return 'hi' } }]]),
+      tags: new Set(['x', 'y']),
+    }
+    const cloned = plainDeepClone(original)
+
+    expect(cloned.byId).toBeInstanceOf(Map)
+    expect(cloned.byId).not.toBe(original.byId)
+    expect(cloned.byId.get('a')).toEqual({ name: 'A' })
+    expect(cloned.tags).toBeInstanceOf(Set)
+    expect([...cloned.tags]).toEqual(['x', 'y'])
+  })
+
+  test('should clone valtio collections to native ones', () => {
+    const original = {
+      byId: proxyMap([['a', { name: 'A' }]]),
+      tags: proxySet(['x']),
+    }
+    const cloned = plainDeepClone(original)
+
+    expect(cloned.byId).toBeInstanceOf(Map)
+    expect([...cloned.byId]).toEqual([['a', { name: 'A' }]])
+    expect(cloned.tags).toBeInstanceOf(Set)
+    expect([...cloned.tags]).toEqual(['x'])
+  })
+
   test('should filter out methods', () => {
     const original = {
       a: 1,
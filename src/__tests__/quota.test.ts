@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { isQuotaExceededError, keyPrefix } from '../quota';
+
+describe('isQuotaExceededError', () => {
+  it('should recognise quota errors of different browsers', () => {
+    expect(isQuotaExceededError(new DOMException('quota', 'QuotaExceededError'))).toBe(true);
+    expect(isQuotaExceededError({ name: 'NS_ERROR_DOM_QUOTA_REACHED' })).toBe(true);
+    expect(isQuotaExceededError({ name: 'Error', code: 22 })).toBe(true);
+    expect(isQuotaExceededError({ name: 'Error', code: 1014 })).toBe(true);
+  });
+
+  it('should not recognise other errors', () => {
+    expect(isQuotaExceededError(new Error('failed'))).toBe(false);
+    expect(isQuotaExceededError(new DOMException('denied', 'SecurityError'))).toBe(false);
+    expect(isQuotaExceededError(null)).toBe(false);
+    expect(isQuotaExceededError('QuotaExceededError')).toBe(false);
+  });
+});
+
+describe('keyPrefix', () => {
+  it('should return key part up to the last slash', () => {
+    expect(keyPrefix('valtio/v1.0/settings')).toBe('valtio/v1.0/');
+    expect(keyPrefix('settings')).toBe('');
+  });
+});
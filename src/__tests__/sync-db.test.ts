@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { LocalStorageDB, DumbDb, ISyncDB } from '../sync-db';
+import { LocalStorageDB, DumbDb, ISyncDB, MemoryDB, SessionStorageDB, clearDb } from '../sync-db';
+import { extendedJsonCodec, type Codec } from '../codec';
+import { CorruptedEntryError } from '../errors';
+import { lzCompressor } from '../compression';
 
 // Mock localStorage with proper typing
 const createMockStorage = () => {
@@ -15,8 +18,10 @@ const createMockStorage = () => {
     clear: vi.fn(() => {
       store = {};
     }),
-    length: 0,
-    key: vi.fn(),
+    get length() {
+      return Object.keys(store).length;
+    },
+    key: vi.fn((index: number) => Object.keys(store)[index] ?? null),
   };
   return mockStorage;
 };
@@ -112,14 +117,27 @@ describe('LocalStorageDB', () => {
       const result = db.get<typeof complexObject>('test');
       expect(result).toEqual(complexObject);
     });
+
+    it('should throw CorruptedEntryError for malformed values', () => {
+      mockStorage.getItem.mockReturnValue('{"name": ');
+
+      expect(() => db.get('test')).toThrow(CorruptedEntryError);
+      try {
+        db.get('test');
+      } catch (error) {
+        expect((error as CorruptedEntryError).key).toBe('test');
+        expect((error as CorruptedEntryError).raw).toBe('{"name": ');
+        expect((error as CorruptedEntryError).reason).toBeInstanceOf(SyntaxError);
+      }
+    });
   });
 
   describe('set method', () => {
-    it('should store string values directly', () => {
+    it('should store string values as JSON', () => {
       const testString = 'hello world';
       db.set('test', testString);
       
-      expect(mockStorage.setItem).toHaveBeenCalledWith('test', testString);
+      expect(mockStorage.setItem).toHaveBeenCalledWith('test', JSON.stringify(testString));
     });
 
     it('should JSON stringify non-string values', () => {
@@ -170,17 +188,132 @@ describe('LocalStorageDB', () => {
     });
   });
 
+  describe('codec option', () => {
+    it('should serialize values with provided codec', () => {
+      const codec: Codec = {
+        encode: vi.fn(() => 'encoded'),
+        decode: vi.fn(() => ({ decoded: true })) as Codec['decode'],
+      };
+      const codecDb = new LocalStorageDB(mockStorage as unknown as Storage, { codec });
+
+      codecDb.set('test', { value: 1 });
+      expect(codec.encode).toHaveBeenCalledWith({ value: 1 });
+      expect(mockStorage.setItem).toHaveBeenCalledWith('test', 'encoded');
+
+      expect(codecDb.get('test')).toEqual({ decoded: true });
+      expect(codec.decode).toHaveBeenCalledWith('encoded');
+    });
+
+    it('should round-trip dates with extended codec', () => {
+      const codecDb = new LocalStorageDB(mockStorage as unknown as Storage, { codec: extendedJsonCodec });
+      const date = new Date('2024-01-01T00:00:00.000Z');
+
+      codecDb.set('test', { date });
+
+      expect(codecDb.get<{ date: Date }>('test')).toEqual({ date });
+    });
+  });
+
+  describe('compression option', () => {
+    const largeValue = { items: Array.from({ length: 100 }, (_, id) => ({ id, title: 'Item' })) };
+
+    it('should compress large values', () => {
+      const compressedDb = new LocalStorageDB(mockStorage as unknown as Storage, { compression: lzCompressor });
+
+      compressedDb.set('test', largeValue);
+
+      const stored = mockStorage.setItem.mock.calls[0][1];
+      expect(stored.startsWith(lzCompressor.marker)).toBe(true);
+      expect(stored.length).toBeLessThan(JSON.stringify(largeValue).length);
+      expect(compressedDb.get('test')).toEqual(largeValue);
+    });
+
+    it('should store values shorter than threshold as is', () => {
+      const compressedDb = new LocalStorageDB(mockStorage as unknown as Storage, { compression: lzCompressor });
+
+      compressedDb.set('test', { small: true });
+
+      expect(mockStorage.setItem).toHaveBeenCalledWith('test', '{"small":true}');
+    });
+
+    it('should use custom threshold', () => {
+      const compressedDb = new LocalStorageDB(mockStorage as unknown as Storage, {
+        compression: lzCompressor,
+        compressionThreshold: 10,
+      });
+
+      compressedDb.set('test', 'a'.repeat(100));
+
+      expect(mockStorage.setItem.mock.calls[0][1].startsWith(lzCompressor.marker)).toBe(true);
+      expect(compressedDb.get('test')).toBe('a'.repeat(100));
+    });
+
+    it('should read values stored without compression', () => {
+      const compressedDb = new LocalStorageDB(mockStorage as unknown as Storage, { compression: lzCompressor });
+      mockStorage.setItem('test', JSON.stringify(largeValue));
+
+      expect(compressedDb.get('test')).toEqual(largeValue);
+    });
+
+    it('should throw CorruptedEntryError for malformed compressed values', () => {
+      const compressedDb = new LocalStorageDB(mockStorage as unknown as Storage, { compression: lzCompressor });
+      mockStorage.setItem('test', `${lzCompressor.marker}broken`);
+
+      expect(() => compressedDb.get('test')).toThrow(CorruptedEntryError);
+    });
+  });
+
+  describe('remove method', () => {
+    it('should remove value from storage', () => {
+      db.set('test', { value: 1 });
+      db.remove('test');
+
+      expect(mockStorage.removeItem).toHaveBeenCalledWith('test');
+      expect(db.get('test')).toBeNull();
+    });
+  });
+
+  describe('keys method', () => {
+    it('should list keys with prefix', () => {
+      db.set('app/a', 1);
+      db.set('app/b', 2);
+      db.set('other/c', 3);
+
+      expect(db.keys('app/')).toEqual(['app/a', 'app/b']);
+      expect(db.keys()).toEqual(['app/a', 'app/b', 'other/c']);
+    });
+  });
+
+  describe('clear method', () => {
+    it('should remove keys with prefix', () => {
+      db.set('app/a', 1);
+      db.set('app/b', 2);
+      db.set('other/c', 3);
+
+      db.clear('app/');
+
+      expect(db.keys()).toEqual(['other/c']);
+    });
+
+    it('should remove all keys without prefix', () => {
+      db.set('app/a', 1);
+      db.set('other/c', 3);
+
+      db.clear();
+
+      expect(db.keys()).toEqual([]);
+    });
+  });
+
   describe('round-trip operations', () => {
-    it('should store and retrieve the same string value (Note: strings fail JSON.parse)', () => {
+    it('should store and retrieve the same string value', () => {
       const testValue = 'hello world';
       db.set('test', testValue);
       
-      // The current implementation has a bug: strings are stored directly but then JSON.parse is called
-      // This test documents the actual behavior
-      expect(() => {
-        mockStorage.getItem.mockReturnValue(testValue);
-        db.get<string>('test');
-      }).toThrow('Unexpected token');
+      const storedValue = mockStorage.setItem.mock.calls[0][1];
+      mockStorage.getItem.mockReturnValue(storedValue);
+      
+      expect(db.get<string>('test')).toBe(testValue);
     });
 
     it('should store and retrieve the same object value', () => {
@@ -218,6 +351,162 @@ describe('LocalStorageDB', () => {
   });
 });
 
+describe('LocalStorageDB quota handling', () => {
+  // Storage which fits limited number of characters in values
+  const createLimitedStorage = (limit: number, initial: [string, string][] = []) => {
+    const store = new Map<string, string>(initial);
+    const used = (except?: string) =>
+      [...store].reduce((sum, [key, value]) => key === except ? sum : sum + value.length, 0);
+
+    return {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: vi.fn((key: string, value: string) => {
+        if (used(key) + value.length > limit) {
+          throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+        }
+        store.set(key, value);
+      }),
+      removeItem: (key: string) => { store.delete(key); },
+      key: (index: number) => [...store.keys()][index] ?? null,
+      get length() {
+        return store.size;
+      },
+      store,
+    };
+  };
+
+  it('should drop write and report it by default', () => {
+    const storage = createLimitedStorage(10);
+    const onQuotaExceeded = vi.fn();
+    const db = new LocalStorageDB(storage as unknown as Storage, { onQuotaExceeded });
+
+    expect(() => db.set('app/key', 'long value to store')).not.toThrow();
+
+    expect(storage.store.has('app/key')).toBe(false);
+    expect(onQuotaExceeded).toHaveBeenCalledWith({
+      key: 'app/key',
+      error: expect.objectContaining({ name: 'QuotaExceededError' }),
+      evicted: [],
+      saved: false,
+    });
+  });
+
+  it('should log warning by default when data is not saved', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const db = new LocalStorageDB(createLimitedStorage(1) as unknown as Storage);
+
+    db.set('app/key', 'value');
+
+    expect(warn).toHaveBeenCalledWith('Storage quota exceeded, "app/key" is not saved');
+    warn.mockRestore();
+  });
+
+  it('should rethrow errors not related to quota', () => {
+    const storage = createLimitedStorage(100);
+    storage.setItem.mockImplementation(() => {
+      throw new Error('storage is disabled');
+    });
+    const db = new LocalStorageDB(storage as unknown as Storage);
+
+    expect(() => db.set('app/key', 'value')).toThrow('storage is disabled');
+  });
+
+  it('should evict least recently used keys under the same prefix', () => {
+    const storage = createLimitedStorage(20, [
+      ['app/old', '"12345"'],
+      ['app/recent', '"12345"'],
+      ['other/key', '"12345"'],
+    ]);
+    const onQuotaExceeded = vi.fn();
+    const db = new LocalStorageDB(storage as unknown as Storage, { quotaPolicy: 'evict-lru', onQuotaExceeded });
+    db.get('app/recent');
+
+    db.set('app/new', '12');
+
+    expect([...storage.store.keys()]).toEqual(['app/recent', 'other/key', 'app/new']);
+    expect(onQuotaExceeded).toHaveBeenCalledWith(expect.objectContaining({ evicted: ['app/old'], saved: true }));
+  });
+
+  it('should share access times between databases of the same storage', () => {
+    const storage = createLimitedStorage(27, [
+      ['app/a', '"12345"'],
+      ['app/b', '"12345"'],
+      ['app/c', '"12345"'],
+    ]);
+    const [a, b, c, d] = [1, 2, 3, 4].map(() =>
+      new LocalStorageDB(storage as unknown as Storage, { quotaPolicy: 'evict-lru', onQuotaExceeded: vi.fn() }));
+    b.get('app/b');
+    c.get('app/c');
+    a.get('app/a');
+
+    d.set('app/d', '12345');
+
+    expect([...storage.store.keys()]).toEqual(['app/a', 'app/c', 'app/d']);
+  });
+
+  it('should evict as many keys as needed', () => {
+    const storage = createLimitedStorage(14, [
+      ['app/a', '"1"'],
+      ['app/b', '"2"'],
+      ['app/c', '"3"'],
+    ]);
+    const db = new LocalStorageDB(storage as unknown as Storage, { quotaPolicy: 'evict-lru', onQuotaExceeded: vi.fn() });
+
+    db.set('app/new', '1234567890');
+
+    expect([...storage.store.keys()]).toEqual(['app/new']);
+  });
+
+  it('should not evict keys of other prefixes', () => {
+    const storage = createLimitedStorage(10, [['other/key', '"12345"']]);
+    const onQuotaExceeded = vi.fn();
+    const db = new LocalStorageDB(storage as unknown as Storage, { quotaPolicy: 'evict-lru', onQuotaExceeded });
+
+    db.set('app/new', '12345');
+
+    expect(storage.store.has('other/key')).toBe(true);
+    expect(onQuotaExceeded).toHaveBeenCalledWith(expect.objectContaining({ saved: false }));
+  });
+
+  it('should use custom eviction prefix', () => {
+    const storage = createLimitedStorage(10, [['app/v1/key', '"12345"']]);
+    const db = new LocalStorageDB(storage as unknown as Storage, {
+      quotaPolicy: 'evict-lru',
+      evictionPrefix: 'app/',
+      onQuotaExceeded: vi.fn(),
+    });
+
+    db.set('app/v2/key', '12345');
+
+    expect([...storage.store.keys()]).toEqual(['app/v2/key']);
+  });
+
+  it('should not evict keys without prefix', () => {
+    const storage = createLimitedStorage(10, [['other', '"12345"']]);
+    const db = new LocalStorageDB(storage as unknown as Storage, { quotaPolicy: 'evict-lru', onQuotaExceeded: vi.fn() });
+
+    db.set('key', '12345');
+
+    expect([...storage.store.keys()]).toEqual(['other']);
+  });
+
+  it('should trim only low priority keys', () => {
+    const storage = createLimitedStorage(20, [
+      ['app/important', '"12345"'],
+      ['app/cache:low', '"12345"'],
+    ]);
+    const db = new LocalStorageDB(storage as unknown as Storage, {
+      quotaPolicy: 'trim-low-priority',
+      isLowPriority: (key) => key.endsWith(':low'),
+      onQuotaExceeded: vi.fn(),
+    });
+
+    db.set('app/new', '12345');
+
+    expect([...storage.store.keys()]).toEqual(['app/important', 'app/new']);
+  });
+});
+
 describe('DumbDb', () => {
   let dumbDb: DumbDb;
 
@@ -247,9 +536,175 @@ describe('DumbDb', () => {
     const result = dumbDb.set();
     expect(result).toBeUndefined();
   });
+
+  it('should do nothing on remove method', () => {
+    expect(dumbDb.remove()).toBeUndefined();
+  });
+
+  it('should have no keys', () => {
+    expect(dumbDb.keys()).toEqual([]);
+  });
+
+  it('should do nothing on clear method', () => {
+    expect(dumbDb.clear()).toBeUndefined();
+  });
+});
+
+describe('SessionStorageDB', () => {
+  it('should use session storage', () => {
+    const storage = createMockStorage();
+    vi.stubGlobal('sessionStorage', storage);
+
+    try {
+      const db = new SessionStorageDB();
+      db.set('key', { value: 1 });
+
+      expect(storage.setItem).toHaveBeenCalledWith('key', '{"value":1}');
+      expect(db.get('key')).toEqual({ value: 1 });
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should pass options to local storage database', () => {
+    const storage = createMockStorage();
+    vi.stubGlobal('sessionStorage', storage);
+
+    try {
+      const db = new SessionStorageDB({ codec: extendedJsonCodec });
+      db.set('key', new Date(0));
+
+      expect(db.get('key')).toEqual(new Date(0));
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
 });
 
+describe('MemoryDB', () => {
+  let db: MemoryDB;
+
+  beforeEach(() => {
+    db = new MemoryDB();
+  });
+
+  it('should return null for missing keys', () => {
+    expect(db.get('missing')).toBeNull();
+  });
+
+  it('should round-trip values', () => {
+    db.set('object', { nested: { value: 1 } });
+    db.set('string', 'text');
+
+    expect(db.get('object')).toEqual({ nested: { value: 1 } });
+    expect(db.get('string')).toBe('text');
+  });
+
+  it('should store copies of values', () => {
+    const value = { count: 1 };
+    db.set('key', value);
+    value.count = 2;
+
+    expect(db.get('key')).toEqual({ count: 1 });
+    expect(db.get('key')).not.toBe(db.get('key'));
+  });
+
+  it('should remove values', () => {
+    db.set('key', 1);
+
+    db.remove('key');
+
+    expect(db.has('key')).toBe(false);
+    expect(db.size).toBe(0);
+  });
 
+  it('should be created with initial values', () => {
+    db = new MemoryDB({ a: 1, b: { c: 2 } });
+
+    expect(db.size).toBe(2);
+    expect(db.get('b')).toEqual({ c: 2 });
+  });
+
+  it('should expose serialized values', () => {
+    db.set('key', { value: 1 });
+
+    expect(db.raw('key')).toBe('{"value":1}');
+    expect(db.raw('missing')).toBeNull();
+  });
+
+  it('should list keys with prefix', () => {
+    db.set('app/a', 1);
+    db.set('other/b', 2);
+
+    expect(db.keys('app/')).toEqual(['app/a']);
+    expect(db.keys()).toEqual(['app/a', 'other/b']);
+  });
+
+  it('should clear keys with prefix', () => {
+    db.set('app/a', 1);
+    db.set('other/b', 2);
+
+    db.clear('app/');
+
+    expect(db.snapshot()).toEqual({ 'other/b': 2 });
+  });
+
+  it('should take and restore snapshots', () => {
+    db.set('a', 1);
+    db.set('b', { c: 2 });
+    const snapshot = db.snapshot();
+    db.set('a', 3);
+    db.set('d', 4);
+
+    db.restore(snapshot);
+
+    expect(snapshot).toEqual({ a: 1, b: { c: 2 } });
+    expect(db.snapshot()).toEqual({ a: 1, b: { c: 2 } });
+  });
+
+  it('should use given codec', () => {
+    db = new MemoryDB({}, extendedJsonCodec);
+    db.set('key', new Map([['a', 1]]));
+
+    expect(db.get('key')).toEqual(new Map([['a', 1]]));
+  });
+
+  it('should throw corrupted entry error for values which cannot be decoded', () => {
+    const codec: Codec = { encode: (value) => String(value), decode: (raw) => JSON.parse(raw) };
+    db = new MemoryDB({}, codec);
+    db.set('key', '{broken');
+
+    expect(() => db.get('key')).toThrow(CorruptedEntryError);
+  });
+});
+
+
+
+describe('clearDb', () => {
+  it('should use clear method of database', () => {
+    const db = { get: vi.fn(), set: vi.fn(), clear: vi.fn(), keys: vi.fn() };
+
+    clearDb(db, 'app/');
+
+    expect(db.clear).toHaveBeenCalledWith('app/');
+    expect(db.keys).not.toHaveBeenCalled();
+  });
+
+  it('should remove listed keys when database cannot clear', () => {
+    const db = { get: vi.fn(), set: vi.fn(), remove: vi.fn(), keys: vi.fn(() => ['app/a', 'app/b']) };
+
+    clearDb(db, 'app/');
+
+    expect(db.keys).toHaveBeenCalledWith('app/');
+    expect(db.remove.mock.calls).toEqual([['app/a'], ['app/b']]);
+  });
+
+  it('should do nothing when database supports only get and set', () => {
+    const db: ISyncDB = { get: vi.fn(), set: vi.fn() };
+
+    expect(() => clearDb(db, 'app/')).not.toThrow();
+  });
+});
 
 describe('ISyncDB interface compliance', () => {
   it('DumbDb should implement ISyncDB', () => {
@@ -257,4 +712,11 @@ describe('ISyncDB interface compliance', () => {
     expect(db).toHaveProperty('get');
     expect(db).toHaveProperty('set');
   });
+
+  it('MemoryDB should implement ISyncDB', () => {
+    const db: ISyncDB = new MemoryDB();
+    expect(db).toHaveProperty('get');
+    expect(db).toHaveProperty('set');
+    expect(db).toHaveProperty('remove');
+  });
 }); 
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { listenStorageKey } from '../sync-tabs';
+
+describe('listenStorageKey', () => {
+  const dispatchStorage = (key: string | null) => {
+    window.dispatchEvent(Object.assign(new Event('storage'), { key }));
+  };
+
+  beforeEach(() => {
+    vi.stubGlobal('window', new EventTarget());
+    return () => vi.unstubAllGlobals();
+  });
+
+  it('should call callback on change of listened key', () => {
+    const onChange = vi.fn();
+    listenStorageKey('app/key', onChange);
+
+    dispatchStorage('app/key');
+    dispatchStorage('app/other');
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('should call callback when storage cleared', () => {
+    const onChange = vi.fn();
+    listenStorageKey('app/key', onChange);
+
+    dispatchStorage(null);
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop listening', () => {
+    const onChange = vi.fn();
+    const stop = listenStorageKey('app/key', onChange);
+
+    stop();
+    dispatchStorage('app/key');
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing on server', () => {
+    vi.unstubAllGlobals();
+    const stop = listenStorageKey('app/key', vi.fn());
+
+    expect(() => stop()).not.toThrow();
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BroadcastChannelTransport, MemoryChannel, applySyncOps, toSyncOps, type SyncMessage } from '../sync-transport';
+
+describe('MemoryChannel', () => {
+  const message: SyncMessage = { key: 'app/key', ops: [['set', ['count'], 1]] };
+
+  it('should deliver message to other transports', () => {
+    const channel = new MemoryChannel();
+    const sender = channel.createTransport();
+    const receiver = channel.createTransport();
+    const listener = vi.fn();
+    receiver.listen(listener);
+
+    sender.post(message);
+
+    expect(listener).toHaveBeenCalledWith(message);
+  });
+
+  it('should not deliver message back to sender', () => {
+    const channel = new MemoryChannel();
+    const sender = channel.createTransport();
+    const listener = vi.fn();
+    sender.listen(listener);
+
+    sender.post(message);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should deliver copy of message', () => {
+    const channel = new MemoryChannel();
+    const sender = channel.createTransport();
+    const listener = vi.fn();
+    channel.createTransport().listen(listener);
+
+    sender.post(message);
+
+    expect(listener.mock.calls[0][0]).not.toBe(message);
+  });
+
+  it('should stop delivering after listener removed', () => {
+    const channel = new MemoryChannel();
+    const sender = channel.createTransport();
+    const listener = vi.fn();
+    const stop = channel.createTransport().listen(listener);
+
+    stop();
+    sender.post(message);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should not deliver messages between channels', () => {
+    const sender = new MemoryChannel().createTransport();
+    const listener = vi.fn();
+    new MemoryChannel().createTransport().listen(listener);
+
+    sender.post(message);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('BroadcastChannelTransport', () => {
+  it('should deliver messages between transports of the same channel', async () => {
+    const sender = new BroadcastChannelTransport('transport-test');
+    const receiver = new BroadcastChannelTransport('transport-test');
+    const message: SyncMessage = { key: 'app/key', ops: [['set', ['count'], 1]] };
+
+    const received = new Promise(resolve => receiver.listen(resolve));
+    sender.post(message);
+
+    expect(await received).toEqual(message);
+    sender.close();
+    receiver.close();
+  });
+});
+
+describe('toSyncOps', () => {
+  it('should convert set and delete operations', () => {
+    expect(toSyncOps({}, [
+      ['set', ['user', 'name'], 'John', ''],
+      ['delete', ['user', 'email'], 'john@example.com'],
+    ])).toEqual([
+      ['set', ['user', 'name'], 'John'],
+      ['delete', ['user', 'email']],
+    ]);
+  });
+
+  it('should clone object and array values without methods', () => {
+    const value = { name: 'John', greet() { return 'hi'; } };
+    const list = [{ id: 1 }];
+
+    const ops = toSyncOps({}, [
+      ['set', ['user'], value, undefined],
+      ['set', ['list'], list, undefined],
+    ]);
+
+    expect(ops).toEqual([
+      ['set', ['user'], { name: 'John' }],
+      ['set', ['list'], [{ id: 1 }]],
+    ]);
+    expect(ops[0][2]).not.toBe(value);
+    expect(Array.isArray(ops[1][2])).toBe(true);
+  });
+
+  it('should send whole collection instead of its internal operations', () => {
+    const state = { tags: new Map([['a', 1]]), ids: new Set([1, 2]) };
+
+    expect(toSyncOps(state, [
+      ['set', ['tags', 'data', '0'], 'a', undefined],
+      ['set', ['tags', 'index'], 1, 0],
+      ['delete', ['ids', 'data', '1'], 2],
+      ['set', ['ids'], state.ids, undefined],
+    ])).toEqual([
+      ['set', ['tags'], [['a', 1]]],
+      ['set', ['ids'], [1, 2]],
+    ]);
+  });
+
+  it('should skip operations on symbol keys and function values', () => {
+    expect(toSyncOps({}, [
+      ['set', [Symbol('internal')], 1, undefined],
+      ['set', ['method'], () => 1, undefined],
+    ])).toEqual([]);
+  });
+});
+
+describe('applySyncOps', () => {
+  it('should set nested fields', () => {
+    const state = { user: { name: '' } };
+    applySyncOps(state, [['set', ['user', 'name'], 'John']]);
+    expect(state.user.name).toBe('John');
+  });
+
+  it('should delete fields', () => {
+    const state: { user: { name?: string } } = { user: { name: 'John' } };
+    applySyncOps(state, [['delete', ['user', 'name']]]);
+    expect(state.user).toEqual({});
+  });
+
+  it('should update array items', () => {
+    const state = { list: [1, 2] };
+    applySyncOps(state, [['set', ['list', '2'], 3], ['set', ['list', 'length'], 3]]);
+    expect(state.list).toEqual([1, 2, 3]);
+  });
+
+  it('should refill maps and sets in place', () => {
+    const tags = new Map([['old', 0]]);
+    const ids = new Set([0]);
+    const state = { tags, ids };
+
+    applySyncOps(state, [['set', ['tags'], [['a', 1]]], ['set', ['ids'], [1, 2]]]);
+
+    expect(state.tags).toBe(tags);
+    expect([...tags]).toEqual([['a', 1]]);
+    expect(state.ids).toBe(ids);
+    expect([...ids]).toEqual([1, 2]);
+  });
+
+  it('should skip operations on not existing paths', () => {
+    const state = { user: null };
+    applySyncOps(state, [['set', ['user', 'name'], 'John'], ['set', ['missing', 'deep', 'field'], 1]]);
+    expect(state).toEqual({ user: null });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { isValidator, runValidator, type SchemaAdapter } from '../validate';
+
+const numberSchema: SchemaAdapter = {
+  safeParse: (data) => typeof data === 'number'
+    ? { success: true, data: Math.round(data) }
+    : { success: false, error: 'Expected number' },
+};
+
+describe('isValidator', () => {
+  it('should recognise type guards and schemas', () => {
+    expect(isValidator((data: unknown) => typeof data === 'string')).toBe(true);
+    expect(isValidator(numberSchema)).toBe(true);
+  });
+
+  it('should not treat validators of fields as validator', () => {
+    expect(isValidator({ count: numberSchema })).toBe(false);
+  });
+});
+
+describe('runValidator', () => {
+  it('should validate with type guard', () => {
+    const isString = (data: unknown) => typeof data === 'string';
+
+    expect(runValidator(isString, 'a')).toEqual({ success: true, data: 'a' });
+    expect(runValidator(isString, 1)).toEqual({ success: false });
+  });
+
+  it('should return data parsed by schema', () => {
+    expect(runValidator(numberSchema, 1.6)).toEqual({ success: true, data: 2 });
+  });
+
+  it('should return schema error', () => {
+    expect(runValidator(numberSchema, 'a')).toEqual({ success: false, error: 'Expected number' });
+  });
+
+  it('should keep data when schema does not return it', () => {
+    const schema: SchemaAdapter = { safeParse: () => ({ success: true }) };
+
+    expect(runValidator(schema, { a: 1 })).toEqual({ success: true, data: { a: 1 } });
+  });
+});
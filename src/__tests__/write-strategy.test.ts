@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { debounceWrites, idleWrites, immediateWrites, listenPageExit, throttleWrites } from '../write-strategy';
+
+describe('write strategies', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe('immediateWrites', () => {
+    it('should write on every schedule', () => {
+      const write = vi.fn();
+      const scheduler = immediateWrites(write);
+
+      scheduler.schedule();
+      scheduler.schedule();
+
+      expect(write).toHaveBeenCalledTimes(2);
+    });
+
+    it('should have nothing to flush', () => {
+      const write = vi.fn();
+      immediateWrites(write).flush();
+      expect(write).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('debounceWrites', () => {
+    it('should write once changes stop', () => {
+      const write = vi.fn();
+      const scheduler = debounceWrites(100)(write);
+
+      scheduler.schedule();
+      vi.advanceTimersByTime(50);
+      scheduler.schedule();
+      vi.advanceTimersByTime(50);
+      expect(write).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(50);
+      expect(write).toHaveBeenCalledTimes(1);
+    });
+
+    it('should write pending changes on flush', () => {
+      const write = vi.fn();
+      const scheduler = debounceWrites(100)(write);
+
+      scheduler.schedule();
+      scheduler.flush();
+      vi.advanceTimersByTime(100);
+
+      expect(write).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not write on flush without pending changes', () => {
+      const write = vi.fn();
+      debounceWrites(100)(write).flush();
+      expect(write).not.toHaveBeenCalled();
+    });
+
+    it('should drop pending write on cancel', () => {
+      const write = vi.fn();
+      const scheduler = debounceWrites(100)(write);
+
+      scheduler.schedule();
+      scheduler.cancel();
+      vi.advanceTimersByTime(100);
+
+      expect(write).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('throttleWrites', () => {
+    it('should write first change immediately and the last one at the end of period', () => {
+      const write = vi.fn();
+      const scheduler = throttleWrites(100)(write);
+
+      scheduler.schedule();
+      expect(write).toHaveBeenCalledTimes(1);
+
+      scheduler.schedule();
+      scheduler.schedule();
+      expect(write).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(100);
+      expect(write).toHaveBeenCalledTimes(2);
+    });
+
+    it('should write immediately after quiet period', () => {
+      const write = vi.fn();
+      const scheduler = throttleWrites(100)(write);
+
+      scheduler.schedule();
+      vi.advanceTimersByTime(100);
+      scheduler.schedule();
+
+      expect(write).toHaveBeenCalledTimes(2);
+    });
+
+    it('should write pending changes on flush', () => {
+      const write = vi.fn();
+      const scheduler = throttleWrites(100)(write);
+
+      scheduler.schedule();
+      scheduler.schedule();
+      scheduler.flush();
+      expect(write).toHaveBeenCalledTimes(2);
+
+      vi.advanceTimersByTime(100);
+      expect(write).toHaveBeenCalledTimes(2);
+    });
+
+    it('should drop pending write on cancel', () => {
+      const write = vi.fn();
+      const scheduler = throttleWrites(100)(write);
+
+      scheduler.schedule();
+      scheduler.schedule();
+      scheduler.cancel();
+      vi.advanceTimersByTime(100);
+
+      expect(write).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('idleWrites', () => {
+    it('should write when browser is idle', () => {
+      let idleCallback: (() => void) | undefined;
+      const requestIdleCallback = vi.fn((callback: () => void) => {
+        idleCallback = callback;
+        return 1;
+      });
+      vi.stubGlobal('requestIdleCallback', requestIdleCallback);
+      vi.stubGlobal('cancelIdleCallback', vi.fn());
+      const write = vi.fn();
+      const scheduler = idleWrites(500)(write);
+
+      scheduler.schedule();
+      scheduler.schedule();
+      expect(requestIdleCallback).toHaveBeenCalledTimes(1);
+      expect(requestIdleCallback).toHaveBeenCalledWith(expect.any(Function), { timeout: 500 });
+
+      idleCallback!();
+      expect(write).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cancel idle callback on flush', () => {
+      const cancelIdleCallback = vi.fn();
+      vi.stubGlobal('requestIdleCallback', vi.fn(() => 7));
+      vi.stubGlobal('cancelIdleCallback', cancelIdleCallback);
+      const write = vi.fn();
+      const scheduler = idleWrites()(write);
+
+      scheduler.schedule();
+      scheduler.flush();
+
+      expect(cancelIdleCallback).toHaveBeenCalledWith(7);
+      expect(write).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to timeout without requestIdleCallback', () => {
+      vi.stubGlobal('requestIdleCallback', undefined);
+      const write = vi.fn();
+      const scheduler = idleWrites(500)(write);
+
+      scheduler.schedule();
+      vi.advanceTimersByTime(499);
+      expect(write).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(write).toHaveBeenCalledTimes(1);
+    });
+  });
+});
+
+describe('listenPageExit', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should call callback on pagehide and beforeunload', () => {
+    vi.stubGlobal('window', new EventTarget());
+    const onExit = vi.fn();
+    listenPageExit(onExit);
+
+    window.dispatchEvent(new Event('pagehide'));
+    window.dispatchEvent(new Event('beforeunload'));
+
+    expect(onExit).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop listening', () => {
+    vi.stubGlobal('window', new EventTarget());
+    const onExit = vi.fn();
+    const stop = listenPageExit(onExit);
+
+    stop();
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(onExit).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing on server', () => {
+    expect(() => listenPageExit(vi.fn())()).not.toThrow();
+  });
+});
@@ -0,0 +1,227 @@
+import { Codec, jsonCodec } from './codec';
+import { ISyncDB, MemoryDB } from './sync-db';
+
+/**
+ * Asynchronous key-value database, like IndexedDB.
+ * Used by `cache` through MirroredDB.
+ */
+export interface IAsyncDB {
+  get<T = string>(key: string): Promise<T | null>;
+  set<T = string>(key: string, value: T): Promise<void>;
+  /** Delete stored value */
+  remove?(key: string): Promise<void>;
+}
+
+export interface MirroredDBOptions {
+  /**
+   * Serialization of values kept in memory mirror,
+   * defines which types survive round-trip
+   * @default jsonCodec
+   */
+  codec?: Codec;
+
+  /** Keys to start loading from backend right away */
+  preload?: string[];
+
+  /**
+   * Called when backend operation failed.
+   * By default, logs warning.
+   */
+  onError?: (error: unknown, key: string) => void;
+}
+
+const warnBackendError = (error: unknown, key: string) =>
+  console.warn(`Async storage operation failed for "${key}"`, error);
+
+/**
+ * Synchronous database, which serves reads from in-memory mirror of asynchronous backend.
+ * Keys are loaded from backend on first request, writes go to backend in the background.
+ * Values written before backend load is completed take precedence over loaded ones,
+ * but are passed to backend only after load, so loaded value can be merged with them.
+ */
+export class MirroredDB implements ISyncDB {
+  private mirror: MemoryDB;
+  private onError: (error: unknown, key: string) => void;
+
+  private loads = new Map<string, Promise<void>>();
+  private loadedKeys = new Set<string>();
+  /** Keys changed locally, which must not be overwritten by loaded values */
+  private changedKeys = new Set<string>();
+  /** Values loaded from backend for keys changed locally before load was completed */
+  private shadowedValues = new Map<string, unknown>();
+  /** Number of reverts per key, writes queued before revert are dropped */
+  private reverts = new Map<string, number>();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private backend: IAsyncDB,
+    { codec = jsonCodec, preload = [], onError = warnBackendError }: MirroredDBOptions = {},
+  ) {
+    this.mirror = new MemoryDB({}, codec);
+    this.onError = onError;
+    preload.forEach(key => this.load(key));
+  }
+
+  /** True when every requested key is loaded from backend */
+  get hydrated(): boolean {
+    return this.loads.size === this.loadedKeys.size;
+  }
+
+  /** Resolves when every key requested so far is loaded from backend */
+  get ready(): Promise<void> {
+    return Promise.all(this.loads.values()).then(() => undefined);
+  }
+
+  get<T = string>(key: string): T | null {
+    return this.mirror.get<T>(key);
+  }
+
+  set<T = string>(key: string, value: T): void {
+    this.mirror.set(key, value);
+    this.changedKeys.add(key);
+    // Pass copy, so backend is not affected by later changes of value
+    const stored = this.mirror.get(key);
+    this.enqueue(key, () => this.backend.set(key, stored));
+  }
+
+  remove(key: string): void {
+    this.mirror.remove(key);
+    this.changedKeys.add(key);
+    this.enqueue(key, () => this.backend.remove?.(key));
+  }
+
+  /** Check if key is loaded from backend */
+  isLoaded(key: string): boolean {
+    return this.loadedKeys.has(key);
+  }
+
+  /**
+   * Load key from backend into mirror, loads every key only once.
+   * Never rejects, failures are reported to `onError`.
+   */
+  load(key: string): Promise<void> {
+    let loading = this.loads.get(key);
+    if (!loading) {
+      loading = this.backend.get(key)
+        .then((value) => {
+          if (value === null || value === undefined) {
+            return;
+          }
+
+          if (this.changedKeys.has(key)) {
+            this.shadowedValues.set(key, value);
+          } else {
+            this.mirror.set(key, value);
+          }
+        })
+        .catch(error => this.onError(error, key))
+        .finally(() => {
+          this.loadedKeys.add(key);
+        });
+      this.loads.set(key, loading);
+    }
+
+    return loading;
+  }
+
+  /**
+   * Replace value written before load was completed by the loaded one
+   * and drop writes of replaced value, which are not passed to backend yet.
+   * Allows to apply local changes on top of loaded value.
+   * Returns false if nothing was loaded for the key.
+   */
+  revertToLoaded(key: string): boolean {
+    if (!this.shadowedValues.has(key)) {
+      return false;
+    }
+
+    this.mirror.set(key, this.shadowedValues.get(key));
+    this.shadowedValues.delete(key);
+    this.reverts.set(key, (this.reverts.get(key) ?? 0) + 1);
+    return true;
+  }
+
+  /** Resolves when all writes made so far are passed to backend */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  private enqueue(key: string, write: () => Promise<void> | undefined): void {
+    // Writes are passed one by one, to keep their order,
+    // and wait for load of the key, to not overwrite backend value before it is read
+    const loading = this.loads.get(key);
+    const revision = this.reverts.get(key);
+    this.writes = this.writes
+      .then(() => loading)
+      .then(() => (this.reverts.get(key) === revision ? write() : undefined))
+      .catch(error => this.onError(error, key));
+  }
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export interface IndexedDBStorageOptions {
+  /** @default 'valtio-cache' */
+  databaseName?: string;
+
+  /** @default 'cache' */
+  storeName?: string;
+
+  /**
+   * IndexedDB implementation
+   * @default indexedDB
+   */
+  factory?: IDBFactory;
+}
+
+/**
+ * Asynchronous database on top of IndexedDB.
+ * Values are stored with structured clone, so dates, maps and sets are preserved.
+ * Database is opened on first operation.
+ */
+export class IndexedDBStorage implements IAsyncDB {
+  private databaseName: string;
+  private storeName: string;
+  private factory?: IDBFactory;
+  private database?: Promise<IDBDatabase>;
+
+  constructor({ databaseName = 'valtio-cache', storeName = 'cache', factory }: IndexedDBStorageOptions = {}) {
+    this.databaseName = databaseName;
+    this.storeName = storeName;
+    this.factory = factory;
+  }
+
+  async get<T = string>(key: string): Promise<T | null> {
+    const value = await this.request('readonly', store => store.get(key));
+    return value === undefined ? null : value;
+  }
+
+  async set<T = string>(key: string, value: T): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = (this.factory ?? indexedDB).open(this.databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(this.storeName);
+      };
+      this.database = promisify(request);
+    }
+
+    return this.database;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await this.open();
+    return promisify(run(database.transaction(this.storeName, mode).objectStore(this.storeName)));
+  }
+}
@@ -1,8 +1,23 @@
 import {proxy, subscribe} from 'valtio';
 
-import {ISyncDB, injectDb} from './sync-db';
+import {ISyncDB, clearDb, hasStoredValue, injectDb} from './sync-db';
 import {plainDeepClone} from './plain-deep-clone';
-import { deepMerge } from './merge';
+import { ArrayStrategy, deepMerge, mergeArrays, mergeOmitted, omitShape, pickShape, pruneFields } from './merge';
+import { CacheMeta, unwrapEntry, wrapEntry } from './entry';
+import { isMapLike, isSetLike } from './collections';
+import { Migrations, runMigrations } from './migrate';
+import { listenStorageKey } from './sync-tabs';
+import { ISyncTransport, ValtioOp, applySyncOps, getCollectionPath, toSyncOps } from './sync-transport';
+import { MirroredDB } from './async-db';
+import { Cipher, CipherDB } from './cipher';
+import { Codec } from './codec';
+import { Compressor } from './compression';
+import { CorruptedEntryError, ValidationError } from './errors';
+import { QuotaExceededInfo, QuotaPolicy } from './quota';
+import { registerCache, registry } from './registry';
+import { Path, filterPaths, getPath, hasPath, omitPath, pathsOverlap, setPath, toKeys } from './paths';
+import { FieldValidators, Validator, isValidator, runValidator } from './validate';
+import { WriteStrategy, immediateWrites, listenPageExit } from './write-strategy';
 
 /**
  * Default prefix used for local storage keys to avoid collisions.
@@ -34,9 +49,60 @@ export interface CacheOptions {
   /** 
    * Custom database instance to use for caching.
    * If not provided, will use the default local storage database.
+   * With MirroredDB, state is updated when data is loaded from async backend,
+   * fields changed before load are kept.
    */
   db?: ISyncDB;
 
+  /**
+   * Serialization of stored values, used by the default local storage database.
+   * Ignored when custom database is provided.
+   * @example extendedJsonCodec
+   * @default jsonCodec
+   */
+  codec?: Codec;
+
+  /**
+   * Encryption of stored values, applied on top of any database.
+   * Values which cannot be decrypted are handled by `recovery` policy.
+   * @example createStreamCipher('app-secret')
+   */
+  cipher?: Cipher;
+
+  /**
+   * Compression of stored values, used by the default local storage database.
+   * Ignored when custom database is provided, unless `cipher` is given.
+   * @example lzCompressor
+   */
+  compression?: Compressor;
+
+  /**
+   * What to do when storage quota is exceeded, used by the default local storage database.
+   * Ignored when custom database is provided.
+   * @default 'drop'
+   */
+  quotaPolicy?: QuotaPolicy;
+
+  /**
+   * Only keys with this prefix can be evicted by quota policy, used by the default local storage database.
+   * By default, prefix of the cache key is used.
+   * Ignored when custom database is provided.
+   */
+  evictionPrefix?: string;
+
+  /**
+   * Marks keys which can be removed by `trim-low-priority` quota policy, used by the default local storage database.
+   * Ignored when custom database is provided.
+   */
+  isLowPriority?: (key: string) => boolean;
+
+  /**
+   * Called when write exceeded storage quota, used by the default local storage database.
+   * Allows to notify user that data is not saved.
+   * Ignored when custom database is provided.
+   */
+  onQuotaExceeded?: (info: QuotaExceededInfo) => void;
+
   /** 
    * Fix for "TypeError: proxyState is not iterable" error 
    * that can be caused by incorrect build process,
@@ -51,8 +117,281 @@ export interface CacheOptions {
    * @default valtio.subscribe
    * */
   subscribeFunction?: typeof subscribe
+
+  /**
+   * Schema version of the state.
+   * When set, stored data carries its version,
+   * and data of older versions is upgraded by `migrate` functions on load.
+   * Data stored without version is considered version 0.
+   * Data of newer versions is ignored, as it cannot be downgraded.
+   */
+  version?: number;
+
+  /**
+   * Migrations of stored data between schema versions,
+   * where `migrate[n]` receives data of version `n - 1` and returns data of version `n`.
+   * @example { 2: ({name, ...rest}) => ({...rest, user: {name}}) }
+   */
+  migrate?: Migrations;
+
+  /**
+   * If true, will listen for storage changes made by other browser tabs
+   * and merge them into the state.
+   * Merged changes are not written back to storage.
+   * @default false
+   */
+  syncTabs?: boolean;
+
+  /**
+   * Transport to exchange fine-grained state changes with other peers,
+   * like browser tabs, workers or iframes, which cache the same key.
+   * Received changes are applied to the state and persisted, but not sent back.
+   * @example new BroadcastChannelTransport('my-app')
+   */
+  transport?: ISyncTransport;
+
+  /**
+   * Controls when state changes are written to storage.
+   * Deferred writes are flushed when user leaves the page.
+   * @example debounceWrites(300), throttleWrites(1000), idleWrites()
+   * @default immediateWrites
+   */
+  writeStrategy?: WriteStrategy;
+
+  /**
+   * Paths of the only fields to persist, other fields are not saved and not restored.
+   * @example ['settings', 'ui.sidebarOpen']
+   */
+  include?: Path[];
+
+  /**
+   * Paths of fields which are not saved and not restored,
+   * like loading flags or sensitive tokens.
+   * @example ['isLoading', 'session.token', ['items', 0, 'draft']]
+   */
+  exclude?: Path[];
+
+  /**
+   * Time to live of stored data in milliseconds.
+   * Data older than that, or stored without write time, is ignored on load.
+   */
+  ttl?: number;
+
+  /**
+   * If true, expired data will be deleted from storage on load,
+   * when database supports deletion.
+   * @default false
+   */
+  removeExpired?: boolean;
+
+  /**
+   * Time to live of individual fields in milliseconds, by dotted field path.
+   * Expired fields are restored with initial values, while the rest of the state is restored from storage.
+   * @example { 'search.results': 60_000, 'auth.otp': 300_000 }
+   */
+  expires?: Record<string, number>;
+
+  /**
+   * How stored data is merged into initial object:
+   * - `deep` - every stored field is restored
+   * - `strict` - only fields present in initial object are restored,
+   *   so fields removed from initial object do not come back from old stored data.
+   *   Objects with dynamic keys are restored empty, use Map for them.
+   * @default 'deep'
+   */
+  mergeStrategy?: MergeStrategy;
+
+  /**
+   * How stored arrays are combined with arrays of initial object, by dotted field path.
+   * By default, stored array replaces initial one.
+   * @example { dashboards: { mergeBy: 'id' }, 'search.recent': 'union' }
+   */
+  arrayMerge?: Record<string, ArrayStrategy>;
+
+  /**
+   * Custom reconciliation of stored data with the state, applied after other merge options.
+   * Receives copy of initial state, or current state when data is reloaded from other tab,
+   * and returns data which is merged into the state.
+   * @example (initial, stored) => ({ ...stored, visits: Math.max(initial.visits, stored.visits) })
+   */
+  merge?: MergeFunction;
+
+  /**
+   * Custom reconciliation of individual fields, by dotted field path.
+   * Called only for fields present in stored data, before `merge` function.
+   * @example { 'user.role': (initial) => initial }
+   */
+  mergeFields?: Record<string, MergeFunction>;
+
+  /**
+   * If true, stored fields dropped by `strict` merge strategy are removed from storage on next write.
+   * By default, they are kept, so other application versions can still read them.
+   * @default false
+   */
+  pruneUnknown?: boolean;
+
+  /**
+   * Validation of stored data, before it is merged into the state.
+   * Either a type guard or schema with `safeParse` method, like zod or valibot,
+   * which rejects the whole stored value, handled by `recovery` policy.
+   * Or validators by field path, then only invalid fields are restored with initial values.
+   * @example (data) => isSettings(data)
+   * @example { theme: (value) => value === 'light' || value === 'dark', 'user.email': z.string().email() }
+   */
+  validate?: Validator | FieldValidators;
+
+  /**
+   * What to do when stored data cannot be loaded:
+   * - `reset` - ignore stored data and use initial object
+   * - `quarantine` - same as reset, but also move stored value under side key, for later inspection
+   * - `throw` - rethrow error
+   * @default 'reset'
+   */
+  recovery?: RecoveryPolicy;
+
+  /**
+   * Called when stored data cannot be loaded, before recovery policy is applied.
+   * If not provided, error is logged as warning.
+   */
+  onError?: (error: unknown, context: ErrorContext) => void;
 }
 
+export type RecoveryPolicy = 'reset' | 'quarantine' | 'throw';
+
+export type MergeStrategy = 'deep' | 'strict';
+
+export type { ArrayStrategy };
+
+/**
+ * Details of merged value
+ */
+export interface MergeContext {
+  /** Dotted path of merged field, empty string for the whole state */
+  path: string;
+  /** Current schema version, set by `version` option */
+  version?: number;
+  /** Metadata of stored value, null when value was stored without it */
+  meta: CacheMeta | null;
+}
+
+/**
+ * Combine initial value with stored one, returns value which is restored
+ */
+export type MergeFunction = (initial: any, stored: any, context: MergeContext) => any;
+
+/**
+ * Details of failed load of stored data
+ */
+export interface ErrorContext {
+  /** Full storage key of the state */
+  key: string;
+  /** Applied recovery policy */
+  recovery: RecoveryPolicy;
+}
+
+/**
+ * Suffix of storage key, where corrupted data is moved by `quarantine` recovery policy
+ */
+export const QUARANTINE_SUFFIX = ':corrupted';
+
+const warnError = (error: unknown, { key }: ErrorContext) =>
+  console.warn(`Cannot load cached state of "${key}"`, error);
+
+/** Check if data written at the given time is older than time to live */
+const isExpired = (updatedAt: number | undefined, ttl: number): boolean =>
+  updatedAt === undefined || Date.now() - updatedAt > ttl;
+
+/**
+ * Path of changed field, which is restored as a whole.
+ * Arrays, maps and sets are restored entirely, as their items are not merged.
+ */
+const toRestoredPath = (state: object, path: (string | number)[]): (string | number)[] => {
+  let value: any = state;
+  for (let i = 0; i < path.length; i++) {
+    if (i > 0 && (Array.isArray(value) || isMapLike(value) || isSetLike(value))) {
+      return path.slice(0, i);
+    }
+    if (!value || typeof value !== 'object') {
+      return path.slice(0, i);
+    }
+    value = value[path[i]];
+  }
+
+  return path;
+};
+
+/**
+ * Handle to control persistence of cached proxy
+ */
+export interface CacheController {
+  /** Write change delayed by write strategy right away */
+  flush(): void;
+  /** Stop persisting changes of the state, until resumed */
+  pause(): void;
+  /** Continue persisting changes, state is written if it was changed while paused */
+  resume(): void;
+  /** Restore initial state and remove stored value */
+  reset(): void;
+  /**
+   * Stop persisting state and listening for external changes.
+   * State itself stays usable as regular valtio proxy.
+   */
+  dispose(): void;
+  readonly isPaused: boolean;
+}
+
+/** Controllers of cached proxies, by proxy */
+const controllers = new WeakMap<object, CacheController>();
+
+/**
+ * Get controller of cached proxy, to flush, pause or dispose it.
+ * Returns undefined for proxies not created by `cache` function, or already disposed.
+ *
+ * @param state - proxy created by `cache` function
+ */
+export const getCacheController = (state: object): CacheController | undefined =>
+  controllers.get(state);
+
+/**
+ * Stop persisting state and listening for external changes.
+ * State itself stays usable as regular valtio proxy.
+ * 
+ * @param state - proxy created by `cache` function
+ */
+export const disposeCache = (state: object): void => {
+  controllers.get(state)?.dispose();
+};
+
+/**
+ * Restore state to initial object, passed to `cache` function,
+ * and remove stored value.
+ *
+ * @param state - proxy created by `cache` function
+ */
+export const resetCache = (state: object): void => {
+  controllers.get(state)?.reset();
+};
+
+/**
+ * Reset every created cached state and remove every stored key under the prefix,
+ * for example on logout.
+ *
+ * @param options.prefix - prefix of keys to remove
+ * @param options.db - database where keys of not created states are removed, when it can clear or list keys
+ */
+export const clearCaches = ({
+  prefix = DEFAULT_PREFIX,
+  db = injectDb(),
+}: { prefix?: string; db?: ISyncDB } = {}): void => {
+  for (const [key, cache] of registry) {
+    if (key.startsWith(prefix)) {
+      cache.reset();
+    }
+  }
+
+  clearDb(db, prefix);
+};
+
 /**
  * Creates a cached valtio proxy that automatically persists state to local storage.
  * 
@@ -94,9 +433,42 @@ export const cache = <T extends object>(
     key, 
     prefix = DEFAULT_PREFIX, 
     skipCache = false,
-    db = injectDb(),
+    codec,
+    compression,
+    quotaPolicy,
+    evictionPrefix,
+    isLowPriority,
+    onQuotaExceeded,
+    cipher,
+    // Encrypted values cannot be compressed, so cipher compresses them before encryption
+    db: plainDb = injectDb({
+      codec,
+      compression: cipher ? undefined : compression,
+      quotaPolicy,
+      evictionPrefix: evictionPrefix ?? prefix,
+      isLowPriority,
+      onQuotaExceeded,
+    }),
     proxyFunction = proxy,
-    subscribeFunction = subscribe
+    subscribeFunction = subscribe,
+    version,
+    migrate,
+    syncTabs = false,
+    transport,
+    writeStrategy = immediateWrites,
+    include,
+    exclude,
+    ttl,
+    removeExpired = false,
+    expires,
+    mergeStrategy = 'deep',
+    arrayMerge,
+    merge,
+    mergeFields,
+    pruneUnknown = false,
+    validate,
+    recovery = 'reset',
+    onError = warnError,
   } = typeof keyOrOptions === 'string' ? {key: keyOrOptions} : keyOrOptions;
 
   if (skipCache) {
@@ -104,16 +476,448 @@ export const cache = <T extends object>(
   }
 
   const fullKey = `${prefix}${key}`;
+  const db = cipher ? new CipherDB(plainDb, cipher, { codec, compression }) : plainDb;
+
+  // Copy of defaults, taken before initial object is updated by stored data
+  const defaults = plainDeepClone(initialObject || {});
+
+  const validateData = (data: any, validate: Validator | FieldValidators) => {
+    if (isValidator(validate)) {
+      const result = runValidator(validate, data);
+      if (!result.success) {
+        throw new ValidationError(fullKey, [], result.error);
+      }
+
+      return result.data;
+    }
+
+    const invalidPaths: string[] = [];
+    for (const [path, validator] of Object.entries(validate)) {
+      if (!hasPath(data, path)) {
+        continue;
+      }
+
+      const value = getPath(data, path);
+      const result = runValidator(validator, value);
+      if (!result.success) {
+        data = omitPath(data, path);
+        invalidPaths.push(path);
+      } else if (result.data !== value) {
+        data = setPath(data, path, result.data);
+      }
+    }
+
+    if (invalidPaths.length) {
+      // Rest of the data is still restored
+      onError(new ValidationError(fullKey, invalidPaths), { key: fullKey, recovery: 'reset' });
+    }
+
+    return data;
+  };
+
+  const mergeStoredArrays = (data: any, strategies: Record<string, ArrayStrategy>) => {
+    // Fresh copy, so items of defaults are not shared with the state
+    const initial = plainDeepClone(defaults);
+    for (const [path, strategy] of Object.entries(strategies)) {
+      const initialArray = getPath(initial, path);
+      const storedArray = getPath(data, path);
+      if (Array.isArray(initialArray) && Array.isArray(storedArray)) {
+        data = setPath(data, path, mergeArrays(initialArray, storedArray, strategy));
+      }
+    }
+
+    return data;
+  };
+
+  const mergeStoredFields = (data: any, base: object, meta: CacheMeta | null, hooks: Record<string, MergeFunction>) => {
+    for (const [path, hook] of Object.entries(hooks)) {
+      if (hasPath(data, path)) {
+        data = setPath(data, path, hook(getPath(base, path), getPath(data, path), { path, version, meta }));
+      }
+    }
+
+    return data;
+  };
+
+  /**
+   * Prepare stored value to be merged into the state
+   * @param getBase - returns plain copy of data, which stored value is merged into
+   */
+  const parse = (value: unknown, getBase: () => object) => {
+    const stored = unwrapEntry<any>(value);
+    let data = stored.data;
+    let isMigrated = false;
+    if (ttl !== undefined && data && isExpired(stored.meta?.updatedAt, ttl)) {
+      if (removeExpired) {
+        db.remove?.(fullKey);
+      }
+      data = null;
+    }
+
+    if (version !== undefined && data) {
+      const storedVersion = stored.meta?.version ?? 0;
+      if (storedVersion > version) {
+        data = null;
+      } else if (storedVersion < version) {
+        data = runMigrations(data, storedVersion, version, migrate);
+        isMigrated = true;
+      }
+    }
+
+    // Write times of fields which are not expired
+    const fields: Record<string, number> = {};
+    if (expires && data) {
+      for (const [path, fieldTtl] of Object.entries(expires)) {
+        const updatedAt = stored.meta?.fields?.[path];
+        if (updatedAt === undefined || isExpired(updatedAt, fieldTtl)) {
+          data = omitPath(data, path);
+          continue;
+        }
+
+        fields[path] = updatedAt;
+      }
+    }
+
+    if (validate && data) {
+      data = validateData(data, validate);
+    }
+
+    // Stored fields, which are not present in initial object
+    let unknown: Record<string, unknown> | undefined;
+    if (mergeStrategy === 'strict' && data) {
+      unknown = omitShape(data, defaults);
+      data = pickShape(data, defaults);
+    }
+
+    if (arrayMerge && data) {
+      data = mergeStoredArrays(data, arrayMerge);
+    }
+
+    if ((mergeFields || merge) && data) {
+      const base = getBase();
+      if (mergeFields) {
+        data = mergeStoredFields(data, base, stored.meta, mergeFields);
+      }
+      if (merge) {
+        data = merge(base, data, { path: '', version, meta: stored.meta });
+      }
+    }
+
+    return { data: filterPaths(data, { include, exclude }), isMigrated, fields, unknown };
+  };
+
+  const load = (getBase: () => object) => {
+    let value: unknown;
+    try {
+      value = db.get(fullKey);
+      return parse(value, getBase);
+    } catch (error) {
+      onError(error, { key: fullKey, recovery });
+      if (recovery === 'throw') {
+        throw error;
+      }
+
+      const corrupted = error instanceof CorruptedEntryError ? error.raw : value;
+      if (recovery === 'quarantine' && corrupted !== undefined) {
+        db.set(`${fullKey}${QUARANTINE_SUFFIX}`, corrupted);
+        db.remove?.(fullKey);
+      }
+
+      return { data: null, isMigrated: false, fields: {} as Record<string, number>, unknown: undefined };
+    }
+  };
+
+  const { data, isMigrated, fields: fieldTimes, unknown } = load(() => plainDeepClone(defaults));
+  let unknownFields = pruneUnknown ? undefined : unknown;
   // Update initial object state fields with local storage copy
   // It is important to update, instead of clone initial object,
   // because it can contain logic in methods and getters that need to be preserved
-  deepMerge(initialObject, db.get(fullKey) || {});
+  deepMerge(initialObject, data || {});
   const state = proxyFunction(initialObject) as T;
 
-  subscribeFunction(state, () => {
+  const expiringPaths = Object.keys(expires || {}).map(path => ({ path, keys: toKeys(path) }));
+  const trackFieldWrites = (ops: ValtioOp[]) => {
+    const now = Date.now();
+    for (const [, opPath] of ops) {
+      for (const { path, keys } of expiringPaths) {
+        if (pathsOverlap(opPath, keys)) {
+          fieldTimes[path] = now;
+        }
+      }
+    }
+  };
+
+  const hasMeta = version !== undefined || ttl !== undefined || expires !== undefined;
+  /** Value to write to storage for the current state */
+  const toStored = () => {
     // Deep clone object without methods, getters and setters
-    const cloned = plainDeepClone(state);
-    db.set(fullKey, cloned);
+    const cloned = filterPaths(plainDeepClone(state), { include, exclude });
+    if (unknownFields) {
+      mergeOmitted(cloned, plainDeepClone(unknownFields));
+    }
+    if (!hasMeta) {
+      return cloned;
+    }
+
+    const meta: CacheMeta = {};
+    if (version !== undefined) {
+      meta.version = version;
+    }
+    if (ttl !== undefined) {
+      meta.updatedAt = Date.now();
+    }
+    if (expires !== undefined) {
+      meta.fields = { ...fieldTimes };
+    }
+    return wrapEntry(cloned, meta);
+  };
+  const persist = () => db.set(fullKey, toStored());
+  const writer = writeStrategy(persist);
+
+  let isApplyingExternal = false;
+  let hasLocalChanges = false;
+  let isPaused = false;
+  let isChangedWhilePaused = false;
+  /** Write all changes made in the same tick at once */
+  const scheduleBatch = () => {
+    if (hasLocalChanges) {
+      return;
+    }
+
+    hasLocalChanges = true;
+    Promise.resolve().then(drainBatch);
+  };
+  /** Pass changes of the current tick to write strategy without waiting for microtask */
+  const drainBatch = () => {
+    if (hasLocalChanges) {
+      hasLocalChanges = false;
+      writer.schedule();
+    }
+  };
+  const flush = () => {
+    drainBatch();
+    writer.flush();
+  };
+  const markChanged = () => {
+    if (isPaused) {
+      isChangedWhilePaused = true;
+      return;
+    }
+    scheduleBatch();
+  };
+  /** Paths changed before data is loaded from async backend, to keep them on top of loaded data */
+  let changedBeforeLoad: ValtioOp[1][] | undefined =
+    plainDb instanceof MirroredDB && !plainDb.isLoaded(fullKey) ? [] : undefined;
+  const teardown = [
+    // Notify in sync, so only changes made while applying external data are skipped
+    subscribeFunction(state, (ops) => {
+      if (isApplyingExternal) {
+        return;
+      }
+
+      trackFieldWrites(ops);
+      changedBeforeLoad?.push(...ops.map(op => op[1]));
+      markChanged();
+    }, true),
+    // Pending write must not be lost when state is disposed
+    flush,
+  ];
+
+  if (writeStrategy !== immediateWrites) {
+    teardown.push(listenPageExit(flush));
+  }
+
+  if (isMigrated) {
+    // Save migrated data, so migrations will not run again on next load
+    persist();
+  }
+
+  /** Change state without persisting the change */
+  const applyExternal = (change: () => void) => {
+    isApplyingExternal = true;
+    try {
+      change();
+    } finally {
+      isApplyingExternal = false;
+    }
+  };
+
+  /** Apply data changed in storage outside of this proxy */
+  const reload = () => {
+    const { data, fields, unknown } = load(() => plainDeepClone(state));
+    if (!data) {
+      return;
+    }
+
+    Object.assign(fieldTimes, fields);
+    unknownFields = pruneUnknown ? undefined : unknown;
+    applyExternal(() => deepMerge(state, data));
+  };
+
+  const reset = () => {
+    writer.cancel();
+    hasLocalChanges = false;
+    isChangedWhilePaused = false;
+    unknownFields = undefined;
+    for (const path of Object.keys(fieldTimes)) {
+      delete fieldTimes[path];
+    }
+
+    applyExternal(() => {
+      pruneFields(state, defaults);
+      deepMerge(state, plainDeepClone(defaults));
+    });
+
+    if (db.remove) {
+      db.remove(fullKey);
+    } else {
+      // Database cannot delete values, so defaults are written instead
+      persist();
+    }
+  };
+
+  if (syncTabs) {
+    teardown.push(listenStorageKey(fullKey, reload));
+  }
+
+  if (plainDb instanceof MirroredDB && !plainDb.isLoaded(fullKey)) {
+    // Initial object is used until data is loaded from async backend
+    let isDisposed = false;
+    teardown.push(() => {
+      isDisposed = true;
+    });
+    plainDb.load(fullKey).then(() => {
+      if (isDisposed) {
+        return;
+      }
+
+      // Fields changed before load are kept, other fields are taken from loaded data
+      const changed = new Map<string, { keys: (string | number)[], exists: boolean, value: unknown }>();
+      for (const path of changedBeforeLoad ?? []) {
+        if (path.some(key => typeof key === 'symbol')) {
+          continue;
+        }
+
+        const keys = toRestoredPath(state, path as (string | number)[]);
+        changed.set(JSON.stringify(keys), {
+          keys,
+          exists: hasPath(state, keys),
+          value: plainDeepClone({ value: getPath(state, keys) }).value,
+        });
+      }
+      changedBeforeLoad = undefined;
+
+      plainDb.revertToLoaded(fullKey);
+      reload();
+      if (!changed.size) {
+        return;
+      }
+
+      for (const { keys, exists, value } of changed.values()) {
+        const parent = getPath(state, keys.slice(0, -1)) as any;
+        const key = keys[keys.length - 1];
+        if (!parent || typeof parent !== 'object') {
+          continue;
+        }
+        if (!exists) {
+          delete parent[key];
+        } else if (value === null || typeof value !== 'object') {
+          parent[key] = value;
+        } else {
+          deepMerge(parent, { [key]: value });
+        }
+      }
+      // Restored fields can be equal to loaded ones, while stored value still lacks them
+      markChanged();
+    });
+  }
+
+  teardown.push(registerCache(fullKey, {
+    snapshot: toStored,
+    hydrate: (stored) => {
+      // Value persisted on the client is never replaced by server one
+      if (hasStoredValue(db, fullKey)) {
+        return;
+      }
+
+      db.set(fullKey, stored);
+      reload();
+    },
+    reset,
+  }));
+
+  if (transport) {
+    let isApplyingReceived = false;
+    let collectionOps: ValtioOp[] = [];
+    const post = (ops: ValtioOp[]) => {
+      const syncOps = toSyncOps(state, ops);
+      if (syncOps.length) {
+        transport.post({ key: fullKey, ops: syncOps });
+      }
+    };
+    // Notify in sync, to skip changes made while applying received operations.
+    // Changes loaded from storage are not sent, other peers load them by themselves
+    teardown.push(subscribeFunction(state, (ops) => {
+      if (isApplyingReceived || isApplyingExternal) {
+        return;
+      }
+
+      if (!ops.some(op => getCollectionPath(state, op[1]))) {
+        post(ops);
+        return;
+      }
+
+      // Maps and sets report changes in the middle of their operations,
+      // so collections are sent once operation is completed
+      if (!collectionOps.length) {
+        Promise.resolve().then(() => {
+          const ops = collectionOps;
+          collectionOps = [];
+          post(ops);
+        });
+      }
+      collectionOps.push(...ops);
+    }, true));
+    teardown.push(() => {
+      collectionOps = [];
+    });
+
+    teardown.push(transport.listen((message) => {
+      if (message.key !== fullKey) {
+        return;
+      }
+
+      isApplyingReceived = true;
+      try {
+        applySyncOps(state, message.ops);
+      } finally {
+        isApplyingReceived = false;
+      }
+    }));
+  }
+
+  controllers.set(state, {
+    flush,
+    pause: () => {
+      isPaused = true;
+    },
+    resume: () => {
+      isPaused = false;
+      if (isChangedWhilePaused) {
+        isChangedWhilePaused = false;
+        writer.schedule();
+      }
+    },
+    reset,
+    dispose: () => {
+      if (controllers.has(state)) {
+        controllers.delete(state);
+        teardown.forEach(stop => stop());
+      }
+    },
+    get isPaused() {
+      return isPaused;
+    },
   });
 
   return state;
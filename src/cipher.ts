@@ -0,0 +1,222 @@
+import { Codec, jsonCodec } from './codec';
+import { Compressor, compressValue, decompressValue } from './compression';
+import { CorruptedEntryError } from './errors';
+import { ISyncDB, clearDb } from './sync-db';
+
+/**
+ * Synchronous encryption of serialized values
+ */
+export interface Cipher {
+  encrypt(plain: string): string;
+  /** Restore string created by `encrypt`, throws if value is tampered or cannot be decrypted */
+  decrypt(encrypted: string): string;
+  /**
+   * Check if string has format of `encrypt` result,
+   * allows to read values stored before encryption was enabled
+   */
+  isEncrypted?(value: string): boolean;
+}
+
+export interface CipherDBOptions {
+  /**
+   * Serialization of stored values
+   * @default jsonCodec
+   */
+  codec?: Codec;
+
+  /**
+   * Compression of serialized values, applied before encryption,
+   * as encrypted values cannot be compressed
+   */
+  compression?: Compressor;
+
+  /**
+   * Minimal length of serialized value to compress,
+   * shorter values are encrypted as is
+   * @default 1024
+   */
+  compressionThreshold?: number;
+}
+
+/**
+ * Database wrapper, which encrypts values before passing them to wrapped database.
+ * Values which cannot be decrypted are reported as corrupted.
+ * Values stored before encryption was enabled are read as is and encrypted on the next write.
+ */
+export class CipherDB implements ISyncDB {
+  private codec: Codec;
+  private compression?: Compressor;
+  private compressionThreshold: number;
+
+  constructor(
+    private db: ISyncDB,
+    private cipher: Cipher,
+    { codec = jsonCodec, compression, compressionThreshold = 1024 }: CipherDBOptions = {},
+  ) {
+    this.codec = codec;
+    this.compression = compression;
+    this.compressionThreshold = compressionThreshold;
+  }
+
+  get<T = string>(key: string): T | null {
+    const encrypted = this.db.get<unknown>(key);
+    if (encrypted === null || encrypted === undefined) {
+      return null;
+    }
+
+    if (typeof encrypted !== 'string' || this.cipher.isEncrypted?.(encrypted) === false) {
+      // Stored before encryption was enabled, already decoded by wrapped database
+      return encrypted as T;
+    }
+
+    try {
+      return this.codec.decode<T>(this.decompress(this.cipher.decrypt(encrypted)));
+    } catch (error) {
+      throw new CorruptedEntryError(key, encrypted, error);
+    }
+  }
+
+  set<T = string>(key: string, value: T): void {
+    this.db.set(key, this.cipher.encrypt(this.compress(this.codec.encode(value))));
+  }
+
+  remove(key: string): void {
+    this.db.remove?.(key);
+  }
+
+  keys(prefix?: string): string[] {
+    return this.db.keys?.(prefix) ?? [];
+  }
+
+  clear(prefix?: string): void {
+    clearDb(this.db, prefix);
+  }
+
+  private compress(serialized: string): string {
+    return this.compression ? compressValue(serialized, this.compression, this.compressionThreshold) : serialized;
+  }
+
+  private decompress(value: string): string {
+    return this.compression ? decompressValue(value, this.compression) : value;
+  }
+}
+
+/** Fast 128-bit string hash, returns four 32-bit words */
+const hash128 = (input: string): [number, number, number, number] => {
+  let h1 = 1779033703;
+  let h2 = 3144134277;
+  let h3 = 1013904242;
+  let h4 = 2773480762;
+  for (let i = 0; i < input.length; i++) {
+    const k = input.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+};
+
+/** Pseudo-random generator of 32-bit words, seeded by 128-bit value */
+const createKeystream = ([a, b, c, d]: [number, number, number, number]) => () => {
+  const t = (((a + b) | 0) + d) | 0;
+  d = (d + 1) | 0;
+  a = b ^ (b >>> 9);
+  b = (c + (c << 3)) | 0;
+  c = (c << 21) | (c >>> 11);
+  c = (c + t) | 0;
+  return t >>> 0;
+};
+
+const toHex = (words: number[]): string =>
+  words.map(word => word.toString(16).padStart(8, '0')).join('');
+
+const randomNonce = (): string => {
+  const words = new Uint32Array(2);
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    crypto.getRandomValues(words);
+  } else {
+    words[0] = Math.random() * 0x100000000;
+    words[1] = Math.random() * 0x100000000;
+  }
+
+  return toHex([...words]);
+};
+
+const xorWithKeystream = (bytes: Uint8Array, secret: string, nonce: string): Uint8Array => {
+  const next = createKeystream(hash128(`${secret}:${nonce}`));
+  const result = new Uint8Array(bytes.length);
+  let word = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    if (i % 4 === 0) {
+      word = next();
+    }
+    result[i] = bytes[i] ^ ((word >>> ((i % 4) * 8)) & 0xff);
+  }
+
+  return result;
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Convert in chunks to not exceed arguments limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array =>
+  Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+const CIPHER_VERSION = 'v1';
+
+/**
+ * Stream cipher with key derived from the secret.
+ * Every value is encrypted with random nonce and signed,
+ * so tampered values are rejected on decryption.
+ *
+ * Protects data from casual inspection of storage only,
+ * secret shipped with client code can be extracted by determined attacker.
+ */
+export const createStreamCipher = (secret: string): Cipher => {
+  const sign = (nonce: string, plain: string) =>
+    toHex(hash128(`${secret}|${nonce}|${plain}`).slice(0, 2));
+
+  const isEncrypted = (value: string) => {
+    const [version, nonce, signature, payload] = value.split('.');
+    return version === CIPHER_VERSION && !!nonce && !!signature && payload !== undefined;
+  };
+
+  return {
+    isEncrypted,
+    encrypt: (plain) => {
+      const nonce = randomNonce();
+      const encrypted = xorWithKeystream(new TextEncoder().encode(plain), secret, nonce);
+      return [CIPHER_VERSION, nonce, sign(nonce, plain), toBase64(encrypted)].join('.');
+    },
+    decrypt: (encrypted) => {
+      if (!isEncrypted(encrypted)) {
+        throw new Error('Unknown format of encrypted value');
+      }
+
+      const [, nonce, signature, payload] = encrypted.split('.');
+
+      const plain = new TextDecoder().decode(xorWithKeystream(fromBase64(payload), secret, nonce));
+      if (sign(nonce, plain) !== signature) {
+        throw new Error('Encrypted value is tampered or secret is wrong');
+      }
+
+      return plain;
+    },
+  };
+};
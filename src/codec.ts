@@ -0,0 +1,139 @@
+import { isMapLike, isSetLike } from './collections';
+
+/**
+ * Serialization of stored values to strings and back
+ */
+export interface Codec {
+  /** Serialize value to string */
+  encode(value: unknown): string;
+  /** Deserialize string created by `encode` */
+  decode<T = unknown>(raw: string): T;
+}
+
+/**
+ * Store maps as arrays of entries and sets as arrays of values,
+ * which are restored to collections declared by initial state
+ */
+const collectionsReplacer = (_key: string, value: unknown): unknown => {
+  if (isMapLike(value)) {
+    return [...value.entries()];
+  }
+
+  if (isSetLike(value)) {
+    return [...value.values()];
+  }
+
+  return value;
+};
+
+/**
+ * Default JSON codec.
+ * Strings are also JSON encoded, so every value round-trips with the same type.
+ */
+export const jsonCodec: Codec = {
+  encode: (value) => JSON.stringify(value, collectionsReplacer),
+  decode: (raw) => JSON.parse(raw),
+};
+
+/**
+ * Field which marks encoded value of type not supported by JSON
+ */
+const TYPE_FIELD = '$codec';
+
+type Tagged =
+  | { [TYPE_FIELD]: 'Date'; value: string }
+  | { [TYPE_FIELD]: 'Map'; value: [unknown, unknown][] }
+  | { [TYPE_FIELD]: 'Set'; value: unknown[] }
+  | { [TYPE_FIELD]: 'BigInt'; value: string }
+  | { [TYPE_FIELD]: 'Number'; value: 'NaN' | 'Infinity' | '-Infinity' }
+  | { [TYPE_FIELD]: 'undefined' };
+
+const isTagged = (value: any): value is Tagged =>
+  typeof value[TYPE_FIELD] === 'string';
+
+/** Convert value to JSON compatible one, where unsupported types are tagged */
+const toTagged = (value: unknown): unknown => {
+  if (value === undefined) {
+    return { [TYPE_FIELD]: 'undefined' };
+  }
+
+  if (typeof value === 'bigint') {
+    return { [TYPE_FIELD]: 'BigInt', value: value.toString() };
+  }
+
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return { [TYPE_FIELD]: 'Number', value: String(value) };
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  if (value instanceof Date) {
+    return { [TYPE_FIELD]: 'Date', value: value.toISOString() };
+  }
+
+  if (isMapLike(value)) {
+    return { [TYPE_FIELD]: 'Map', value: [...value].map(([key, item]) => [toTagged(key), toTagged(item)]) };
+  }
+
+  if (isSetLike(value)) {
+    return { [TYPE_FIELD]: 'Set', value: [...value].map(toTagged) };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(toTagged);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(value)) {
+    result[key] = toTagged((value as any)[key]);
+  }
+
+  return result;
+};
+
+/** Restore values of tagged types */
+const fromTagged = (value: unknown): unknown => {
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(fromTagged);
+  }
+
+  if (isTagged(value)) {
+    switch (value[TYPE_FIELD]) {
+      case 'Date':
+        return new Date(value.value);
+      case 'Map':
+        return new Map(value.value.map(([key, item]) => [fromTagged(key), fromTagged(item)]));
+      case 'Set':
+        return new Set(value.value.map(fromTagged));
+      case 'BigInt':
+        return BigInt(value.value);
+      case 'Number':
+        return Number(value.value);
+      case 'undefined':
+        return undefined;
+    }
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(value)) {
+    result[key] = fromTagged((value as any)[key]);
+  }
+
+  return result;
+};
+
+/**
+ * JSON codec, which also round-trips
+ * `Date`, `Map`, `Set`, `BigInt`, `undefined`, `NaN` and `Infinity` values.
+ * Values of these types are stored as objects with `$codec` field.
+ */
+export const extendedJsonCodec: Codec = {
+  encode: (value) => JSON.stringify(toTagged(value)),
+  decode: <T>(raw: string) => fromTagged(JSON.parse(raw)) as T,
+};
@@ -0,0 +1,13 @@
+/**
+ * Check if value is native Map or valtio `proxyMap`,
+ * which is not instance of Map, but reports itself as Map
+ */
+export const isMapLike = (value: unknown): value is Map<unknown, unknown> =>
+  !!value && typeof value === 'object' && Object.prototype.toString.call(value) === '[object Map]';
+
+/**
+ * Check if value is native Set or valtio `proxySet`,
+ * which is not instance of Set, but reports itself as Set
+ */
+export const isSetLike = (value: unknown): value is Set<unknown> =>
+  !!value && typeof value === 'object' && Object.prototype.toString.call(value) === '[object Set]';
@@ -0,0 +1,217 @@
+/**
+ * Synchronous compression of serialized values
+ */
+export interface Compressor {
+  /**
+   * Prefix which marks compressed values,
+   * allows to read values stored before compression was enabled.
+   * Must not be valid start of serialized value.
+   */
+  marker: string;
+  compress(input: string): string;
+  /** Restore string created by `compress`, throws if value is malformed */
+  decompress(compressed: string): string;
+}
+
+/** Codes of special tokens, dictionary codes start after them */
+const LITERAL_8 = 0;
+const LITERAL_16 = 1;
+const END = 2;
+const FIRST_CODE = 3;
+
+/**
+ * Each output character carries 15 bits,
+ * shifted to skip control characters and stay below surrogates range
+ */
+const BITS_PER_CHAR = 15;
+const CHAR_OFFSET = 32;
+
+/** Number of bits needed to write codes less than limit */
+const bitsFor = (limit: number): number => Math.max(1, Math.ceil(Math.log2(limit)));
+
+/**
+ * LZW compression, where output is packed into valid UTF-16 characters,
+ * so it can be stored in local storage.
+ * Characters are added to dictionary on first occurrence,
+ * so any UTF-16 string is supported.
+ */
+const compress = (input: string): string => {
+  if (!input) {
+    return '';
+  }
+
+  const output: string[] = [];
+  let buffer = 0;
+  let bufferSize = 0;
+  const writeBits = (value: number, bits: number) => {
+    for (let i = 0; i < bits; i++) {
+      buffer |= ((value >>> i) & 1) << bufferSize;
+      bufferSize++;
+      if (bufferSize === BITS_PER_CHAR) {
+        output.push(String.fromCharCode(buffer + CHAR_OFFSET));
+        buffer = 0;
+        bufferSize = 0;
+      }
+    }
+  };
+
+  const dictionary = new Map<string, number>();
+  let size = FIRST_CODE;
+  // Decoder adds dictionary entries one step later than encoder,
+  // so code width is calculated from the decoder dictionary size,
+  // plus one entry which can be pending after reference
+  let decoderSize = FIRST_CODE;
+  let isAfterReference = false;
+  const writeCode = (code: number) => writeBits(code, bitsFor(decoderSize + (isAfterReference ? 1 : 0)));
+
+  const writeReference = (code: number) => {
+    writeCode(code);
+    if (isAfterReference) {
+      decoderSize++;
+    }
+    isAfterReference = true;
+  };
+
+  const writeLiteral = (char: string) => {
+    const charCode = char.charCodeAt(0);
+    if (charCode < 256) {
+      writeCode(LITERAL_8);
+      writeBits(charCode, 8);
+    } else {
+      writeCode(LITERAL_16);
+      writeBits(charCode, 16);
+    }
+    dictionary.set(char, size++);
+    decoderSize++;
+    isAfterReference = false;
+  };
+
+  let word = '';
+  for (let i = 0; i < input.length; i++) {
+    const char = input.charAt(i);
+    if (!dictionary.has(char)) {
+      if (word) {
+        writeReference(dictionary.get(word)!);
+        word = '';
+      }
+      writeLiteral(char);
+      continue;
+    }
+
+    const extended = word + char;
+    if (dictionary.has(extended)) {
+      word = extended;
+      continue;
+    }
+
+    writeReference(dictionary.get(word)!);
+    dictionary.set(extended, size++);
+    word = char;
+  }
+
+  if (word) {
+    writeReference(dictionary.get(word)!);
+  }
+  writeCode(END);
+
+  if (bufferSize > 0) {
+    output.push(String.fromCharCode(buffer + CHAR_OFFSET));
+  }
+
+  return output.join('');
+};
+
+const decompress = (compressed: string): string => {
+  if (!compressed) {
+    return '';
+  }
+
+  let position = 0;
+  let buffer = 0;
+  let bufferSize = 0;
+  const readBits = (bits: number): number => {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      if (bufferSize === 0) {
+        if (position >= compressed.length) {
+          throw new Error('Unexpected end of compressed data');
+        }
+        buffer = compressed.charCodeAt(position++) - CHAR_OFFSET;
+        bufferSize = BITS_PER_CHAR;
+      }
+      value |= (buffer & 1) << i;
+      buffer >>>= 1;
+      bufferSize--;
+    }
+
+    return value;
+  };
+
+  const dictionary: string[] = [];
+  let previous: string | null = null;
+  const output: string[] = [];
+  for (;;) {
+    const size = dictionary.length + FIRST_CODE;
+    const code = readBits(bitsFor(size + (previous !== null ? 1 : 0)));
+
+    if (code === END) {
+      return output.join('');
+    }
+
+    if (code === LITERAL_8 || code === LITERAL_16) {
+      const char = String.fromCharCode(readBits(code === LITERAL_8 ? 8 : 16));
+      dictionary.push(char);
+      output.push(char);
+      previous = null;
+      continue;
+    }
+
+    let entry: string;
+    if (code < size) {
+      entry = dictionary[code - FIRST_CODE];
+    } else if (code === size && previous !== null) {
+      // Entry which encoder added right before using it
+      entry = previous + previous.charAt(0);
+    } else {
+      throw new Error('Malformed compressed data');
+    }
+
+    output.push(entry);
+    if (previous !== null) {
+      dictionary.push(previous + entry.charAt(0));
+    }
+    previous = entry;
+  }
+};
+
+/**
+ * LZ-style compressor, which produces valid UTF-16 strings.
+ * Usually reduces size of serialized state several times.
+ */
+export const lzCompressor: Compressor = {
+  marker: '\u2063lz:',
+  compress,
+  decompress,
+};
+
+/**
+ * Compress serialized value, when it is long enough.
+ * Values which compress poorly are kept as is, to save decompression time.
+ */
+export const compressValue = (serialized: string, compression: Compressor, threshold: number): string => {
+  if (typeof serialized !== 'string' || serialized.length < threshold) {
+    return serialized;
+  }
+
+  const compressed = compression.marker + compression.compress(serialized);
+  return compressed.length < serialized.length ? compressed : serialized;
+};
+
+/** Restore value created by `compressValue`, values without marker are returned as is */
+export const decompressValue = (value: string, compression: Compressor): string => {
+  if (!value.startsWith(compression.marker)) {
+    return value;
+  }
+
+  return compression.decompress(value.slice(compression.marker.length));
+};
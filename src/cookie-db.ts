@@ -0,0 +1,251 @@
+import { Codec, jsonCodec } from './codec';
+import { CorruptedEntryError } from './errors';
+import { ISyncDB } from './sync-db';
+
+export interface CookieDBOptions {
+  /**
+   * Serialization of stored values
+   * @default jsonCodec
+   */
+  codec?: Codec;
+
+  /**
+   * `Cookie` header of the current request, used on the server,
+   * where `document.cookie` is not available
+   */
+  cookieHeader?: string;
+
+  /**
+   * Called with `Set-Cookie` header value on every write on the server,
+   * allows to send changed cookies with response
+   */
+  onSetCookie?: (cookie: string) => void;
+
+  /** @default '/' */
+  path?: string;
+
+  domain?: string;
+
+  /** @default 'lax' */
+  sameSite?: 'strict' | 'lax' | 'none';
+
+  /**
+   * Send cookies only over https, required by browsers for `sameSite: 'none'`
+   * @default sameSite === 'none'
+   */
+  secure?: boolean;
+
+  /**
+   * Lifetime of cookies in seconds
+   * @default one year
+   */
+  maxAge?: number;
+
+  /**
+   * Maximal length of single cookie value,
+   * longer values are split into several cookies to fit browser limit of 4KB per cookie
+   * @default 4000
+   */
+  chunkSize?: number;
+}
+
+/**
+ * Value of the main cookie of value split into chunks,
+ * followed by number of chunks
+ */
+const CHUNKS_MARKER = '~chunks:';
+
+const ONE_YEAR = 60 * 60 * 24 * 365;
+
+/** Parse `Cookie` header or `document.cookie` to values by name */
+const parseCookies = (header: string): Map<string, string> => {
+  const cookies = new Map<string, string>();
+  for (const pair of header.split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator === -1) {
+      continue;
+    }
+
+    const name = pair.slice(0, separator).trim();
+    // Cookie with more specific path goes first
+    if (name && !cookies.has(name)) {
+      cookies.set(name, pair.slice(separator + 1).trim());
+    }
+  }
+
+  return cookies;
+};
+
+/** Decode cookie name, returns null for malformed names of cookies written by others */
+const decodeName = (name: string): string | null => {
+  try {
+    return decodeURIComponent(name);
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Synchronous key-value database on top of cookies.
+ * Reads `document.cookie` in browser and request cookie header on the server,
+ * so persisted state can be rendered on the server.
+ */
+export class CookieDB implements ISyncDB {
+  private codec: Codec;
+  private onSetCookie?: (cookie: string) => void;
+  private attributes: string;
+  private maxAge: number;
+  private chunkSize: number;
+
+  /** Cookies of the current request, updated by writes on the server */
+  private serverCookies: Map<string, string>;
+
+  constructor({
+    codec = jsonCodec,
+    cookieHeader = '',
+    onSetCookie,
+    path = '/',
+    domain,
+    sameSite = 'lax',
+    secure = sameSite === 'none',
+    maxAge = ONE_YEAR,
+    chunkSize = 4000,
+  }: CookieDBOptions = {}) {
+    this.codec = codec;
+    this.onSetCookie = onSetCookie;
+    this.maxAge = maxAge;
+    this.chunkSize = chunkSize;
+    this.serverCookies = parseCookies(cookieHeader);
+    this.attributes = [
+      `Path=${path}`,
+      domain && `Domain=${domain}`,
+      `SameSite=${sameSite.charAt(0).toUpperCase()}${sameSite.slice(1)}`,
+      secure && 'Secure',
+    ].filter(Boolean).join('; ');
+  }
+
+  get<T = string>(key: string): T | null {
+    const cookies = this.readCookies();
+    const name = encodeURIComponent(key);
+    const value = cookies.get(name);
+    if (value === undefined) {
+      return null;
+    }
+
+    try {
+      return this.codec.decode<T>(decodeURIComponent(this.joinChunks(cookies, name, value)));
+    } catch (error) {
+      throw new CorruptedEntryError(key, value, error);
+    }
+  }
+
+  set<T = string>(key: string, value: T): void {
+    const name = encodeURIComponent(key);
+    const encoded = encodeURIComponent(this.codec.encode(value));
+    const previousChunks = this.countChunks(this.readCookies().get(name));
+
+    let chunks = 0;
+    if (encoded.length <= this.chunkSize) {
+      this.write(name, encoded);
+    } else {
+      chunks = Math.ceil(encoded.length / this.chunkSize);
+      for (let i = 0; i < chunks; i++) {
+        this.write(`${name}.${i}`, encoded.slice(i * this.chunkSize, (i + 1) * this.chunkSize));
+      }
+      this.write(name, `${CHUNKS_MARKER}${chunks}`);
+    }
+
+    for (let i = chunks; i < previousChunks; i++) {
+      this.expire(`${name}.${i}`);
+    }
+  }
+
+  remove(key: string): void {
+    const name = encodeURIComponent(key);
+    const chunks = this.countChunks(this.readCookies().get(name));
+    this.expire(name);
+    for (let i = 0; i < chunks; i++) {
+      this.expire(`${name}.${i}`);
+    }
+  }
+
+  keys(prefix = ''): string[] {
+    const cookies = this.readCookies();
+    const chunkNames = new Set<string>();
+    for (const [name, value] of cookies) {
+      for (let i = 0; i < this.countChunks(value); i++) {
+        chunkNames.add(`${name}.${i}`);
+      }
+    }
+
+    const keys: string[] = [];
+    for (const name of cookies.keys()) {
+      if (chunkNames.has(name)) {
+        continue;
+      }
+
+      const key = decodeName(name);
+      if (key !== null && key.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+
+    return keys;
+  }
+
+  clear(prefix = ''): void {
+    this.keys(prefix).forEach(key => this.remove(key));
+  }
+
+  private readCookies(): Map<string, string> {
+    if (typeof document === 'undefined') {
+      return this.serverCookies;
+    }
+
+    return parseCookies(document.cookie);
+  }
+
+  private countChunks(value: string | undefined): number {
+    if (!value?.startsWith(CHUNKS_MARKER)) {
+      return 0;
+    }
+
+    return Number(value.slice(CHUNKS_MARKER.length)) || 0;
+  }
+
+  private joinChunks(cookies: Map<string, string>, name: string, value: string): string {
+    if (!value.startsWith(CHUNKS_MARKER)) {
+      return value;
+    }
+
+    const chunks: string[] = [];
+    for (let i = 0; i < this.countChunks(value); i++) {
+      const chunk = cookies.get(`${name}.${i}`);
+      if (chunk === undefined) {
+        throw new Error(`Missing chunk ${i} of cookie "${name}"`);
+      }
+      chunks.push(chunk);
+    }
+
+    return chunks.join('');
+  }
+
+  private write(name: string, value: string, maxAge = this.maxAge): void {
+    const cookie = `${name}=${value}; Max-Age=${maxAge}; ${this.attributes}`;
+    if (typeof document !== 'undefined') {
+      document.cookie = cookie;
+      return;
+    }
+
+    if (maxAge > 0) {
+      this.serverCookies.set(name, value);
+    } else {
+      this.serverCookies.delete(name);
+    }
+    this.onSetCookie?.(cookie);
+  }
+
+  private expire(name: string): void {
+    this.write(name, '', 0);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Field used to recognise stored values wrapped with cache metadata.
+ * Prefixed to minimize the chance of collision with user state fields.
+ */
+export const ENTRY_FIELD = '__valtioCache';
+
+/**
+ * Metadata persisted next to the cached state
+ */
+export interface CacheMeta {
+  /** Schema version of the stored data */
+  version?: number;
+  /** Time of the last write, in milliseconds since epoch */
+  updatedAt?: number;
+  /** Time of the last write of fields with expiration, by field path */
+  fields?: Record<string, number>;
+}
+
+/**
+ * Stored value of cache, which carries metadata next to the state data
+ */
+export interface CacheEntry<T = unknown> {
+  [ENTRY_FIELD]: CacheMeta;
+  data: T;
+}
+
+/** Check if stored value was written with metadata */
+export const isCacheEntry = (value: unknown): value is CacheEntry =>
+  !!value &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  typeof (value as any)[ENTRY_FIELD] === 'object' &&
+  (value as any)[ENTRY_FIELD] !== null;
+
+/** Wrap state data with metadata before saving to storage */
+export const wrapEntry = <T>(data: T, meta: CacheMeta): CacheEntry<T> => ({
+  [ENTRY_FIELD]: meta,
+  data,
+});
+
+/**
+ * Split stored value to state data and metadata.
+ * Values saved without metadata (by previous library versions)
+ * returned as is, with null metadata.
+ */
+export const unwrapEntry = <T = unknown>(stored: unknown): { data: T | null; meta: CacheMeta | null } => {
+  if (isCacheEntry(stored)) {
+    return { data: stored.data as T, meta: stored[ENTRY_FIELD] };
+  }
+
+  return { data: (stored ?? null) as T | null, meta: null };
+};
@@ -0,0 +1,38 @@
+/**
+ * Stored value cannot be decoded,
+ * usually written by other application version or browser extension
+ */
+export class CorruptedEntryError extends Error {
+  name = 'CorruptedEntryError';
+
+  constructor(
+    /** Storage key of the value */
+    public key: string,
+    /** Raw stored value */
+    public raw: string,
+    /** Original decoding error */
+    public reason?: unknown,
+  ) {
+    super(`Cannot decode stored value of "${key}"`);
+  }
+}
+
+/**
+ * Stored value does not pass validation of `validate` option
+ */
+export class ValidationError extends Error {
+  name = 'ValidationError';
+
+  constructor(
+    /** Storage key of the value */
+    public key: string,
+    /** Paths of invalid fields, empty when the whole value is invalid */
+    public paths: string[] = [],
+    /** Error reported by schema */
+    public reason?: unknown,
+  ) {
+    super(paths.length
+      ? `Invalid fields ${paths.map(path => `"${path}"`).join(', ')} of stored value "${key}"`
+      : `Invalid stored value of "${key}"`);
+  }
+}
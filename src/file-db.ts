@@ -0,0 +1,341 @@
+import { Codec, jsonCodec } from './codec';
+import { CorruptedEntryError } from './errors';
+import { ISyncDB } from './sync-db';
+
+/**
+ * Synchronous file system functions used by FileDB,
+ * compatible with `fs` module of Node.js
+ */
+export interface FileSystem {
+  readFileSync(path: string, encoding: 'utf8'): string;
+  writeFileSync(path: string, data: string): void;
+  renameSync(oldPath: string, newPath: string): void;
+  unlinkSync(path: string): void;
+  readdirSync(path: string): string[];
+  mkdirSync(path: string, options: { recursive: true }): unknown;
+  openSync(path: string, flags: string): number;
+  closeSync(fd: number): void;
+  statSync(path: string): { mtimeMs: number };
+}
+
+export interface FileDBOptions {
+  /**
+   * File system module, passed explicitly to keep library usable in browser bundles
+   * @example import fs from 'node:fs'
+   */
+  fs: FileSystem;
+
+  /**
+   * Directory where every key is stored in separate JSON file.
+   * Created on first write.
+   */
+  directory?: string;
+
+  /**
+   * Single JSON file, where all keys are stored.
+   * Used instead of `directory` when given.
+   */
+  file?: string;
+
+  /**
+   * Serialization of stored values
+   * @default jsonCodec
+   */
+  codec?: Codec;
+
+  /**
+   * If true, writes take lock file, so several processes do not overwrite each other changes
+   * @default false
+   */
+  lock?: boolean;
+
+  /**
+   * Age of lock file in milliseconds,
+   * after which lock is considered abandoned by crashed process and taken over
+   * @default 1000
+   */
+  lockTimeout?: number;
+}
+
+const isNotFound = (error: unknown): boolean =>
+  (error as { code?: string } | null)?.code === 'ENOENT';
+
+const isAlreadyExists = (error: unknown): boolean =>
+  (error as { code?: string } | null)?.code === 'EEXIST';
+
+/** Decode key from file name, returns null for malformed names of files written by others */
+const decodeName = (name: string): string | null => {
+  try {
+    return decodeURIComponent(name);
+  } catch (error) {
+    return null;
+  }
+};
+
+/** Delay between attempts to take lock */
+const LOCK_RETRY_DELAY = 10;
+
+/** Block the thread, as database is synchronous */
+const sleep = (ms: number): void => {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+};
+
+/** Directory part of the path, empty for bare file names */
+const parentDirectory = (path: string): string => {
+  const separator = Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\'));
+  return separator === -1 ? '' : path.slice(0, separator);
+};
+
+/**
+ * Synchronous key-value database on top of file system,
+ * for Node.js, Electron main process and CLI applications.
+ * Files are replaced atomically, so readers never see partially written data.
+ */
+export class FileDB implements ISyncDB {
+  private fs: FileSystem;
+  private directory?: string;
+  private file?: string;
+  private codec: Codec;
+  private lock: boolean;
+  private lockTimeout: number;
+
+  constructor({
+    fs,
+    directory,
+    file,
+    codec = jsonCodec,
+    lock = false,
+    lockTimeout = 1000,
+  }: FileDBOptions) {
+    if (!directory && !file) {
+      throw new Error('FileDB requires either directory or file option');
+    }
+
+    this.fs = fs;
+    this.directory = directory;
+    this.file = file;
+    this.codec = codec;
+    this.lock = lock;
+    this.lockTimeout = lockTimeout;
+  }
+
+  get<T = string>(key: string): T | null {
+    const value = this.file ? this.readStore()[key] : this.read(this.keyPath(key));
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    try {
+      return this.codec.decode<T>(value);
+    } catch (error) {
+      throw new CorruptedEntryError(key, value, error);
+    }
+  }
+
+  set<T = string>(key: string, value: T): void {
+    const serialized = this.codec.encode(value);
+    if (!this.file) {
+      const path = this.keyPath(key);
+      this.withLock(path, () => this.write(path, serialized));
+      return;
+    }
+
+    this.updateStore(store => {
+      store[key] = serialized;
+    });
+  }
+
+  remove(key: string): void {
+    if (!this.file) {
+      const path = this.keyPath(key);
+      this.withLock(path, () => this.unlink(path));
+      return;
+    }
+
+    this.updateStore(store => {
+      delete store[key];
+    });
+  }
+
+  keys(prefix = ''): string[] {
+    const keys = this.file ? Object.keys(this.readStore()) : this.listKeyFiles();
+    return keys.filter(key => key.startsWith(prefix));
+  }
+
+  clear(prefix = ''): void {
+    if (!this.file) {
+      this.keys(prefix).forEach(key => this.remove(key));
+      return;
+    }
+
+    this.updateStore(store => {
+      for (const key of Object.keys(store)) {
+        if (key.startsWith(prefix)) {
+          delete store[key];
+        }
+      }
+    });
+  }
+
+  private keyPath(key: string): string {
+    // Encode separators and characters not allowed in file names
+    return `${this.directory}/${encodeURIComponent(key).replace(/\*/g, '%2A')}.json`;
+  }
+
+  /** Keys of files in directory, temporary and lock files are skipped */
+  private listKeyFiles(): string[] {
+    let names: string[];
+    try {
+      names = this.fs.readdirSync(this.directory!);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const keys: string[] = [];
+    for (const name of names) {
+      const key = name.endsWith('.json') ? decodeName(name.slice(0, -'.json'.length)) : null;
+      if (key !== null) {
+        keys.push(key);
+      }
+    }
+
+    return keys;
+  }
+
+  private read(path: string): string | null {
+    try {
+      return this.fs.readFileSync(path, 'utf8');
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /** Serialized values of single store file, by key */
+  private readStore(): Record<string, string> {
+    const content = this.read(this.file!);
+    if (content === null) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw new CorruptedEntryError(this.file!, content, error);
+    }
+  }
+
+  private updateStore(update: (store: Record<string, string>) => void): void {
+    this.withLock(this.file!, () => {
+      let store: Record<string, string>;
+      try {
+        store = this.readStore();
+      } catch (error) {
+        if (!(error instanceof CorruptedEntryError)) {
+          throw error;
+        }
+        // Do not block writes because of corrupted file
+        store = {};
+      }
+
+      update(store);
+      this.write(this.file!, JSON.stringify(store));
+    });
+  }
+
+  /** Write to temporary file and rename it, so file is never partially written */
+  private write(path: string, content: string): void {
+    const directory = parentDirectory(path);
+    if (directory) {
+      this.fs.mkdirSync(directory, { recursive: true });
+    }
+
+    const temporary = `${path}.${Math.random().toString(36).slice(2)}.tmp`;
+    try {
+      this.fs.writeFileSync(temporary, content);
+      this.fs.renameSync(temporary, path);
+    } catch (error) {
+      this.unlink(temporary);
+      throw error;
+    }
+  }
+
+  private unlink(path: string): void {
+    try {
+      this.fs.unlinkSync(path);
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+  }
+
+  private withLock(path: string, action: () => void): void {
+    if (!this.lock) {
+      action();
+      return;
+    }
+
+    const lockPath = `${path}.lock`;
+    this.acquireLock(lockPath);
+    try {
+      action();
+    } finally {
+      this.unlink(lockPath);
+    }
+  }
+
+  private acquireLock(lockPath: string): void {
+    const directory = parentDirectory(lockPath);
+    if (directory) {
+      this.fs.mkdirSync(directory, { recursive: true });
+    }
+
+    let isTakenOver = false;
+    for (;;) {
+      try {
+        this.fs.closeSync(this.fs.openSync(lockPath, 'wx'));
+        return;
+      } catch (error) {
+        if (!isAlreadyExists(error)) {
+          throw error;
+        }
+      }
+
+      const lockedAt = this.lockTime(lockPath);
+      if (lockedAt === null) {
+        // Lock is just released
+        continue;
+      }
+
+      if (Date.now() - lockedAt > this.lockTimeout) {
+        if (isTakenOver) {
+          throw new Error(`Cannot take over abandoned lock "${lockPath}"`);
+        }
+        // Lock was not released by crashed process
+        isTakenOver = true;
+        this.unlink(lockPath);
+        continue;
+      }
+
+      sleep(LOCK_RETRY_DELAY);
+    }
+  }
+
+  /** Time when lock was taken, or null if it is released */
+  private lockTime(lockPath: string): number | null {
+    try {
+      return this.fs.statSync(lockPath).mtimeMs;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
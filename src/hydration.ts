@@ -0,0 +1,80 @@
+import { Codec, jsonCodec } from './codec';
+import { registry } from './registry';
+import { ISyncDB, hasStoredValue, injectDb } from './sync-db';
+
+/**
+ * Stored values of cached states, by full storage key
+ */
+export type CachePayload = Record<string, unknown>;
+
+/**
+ * Collect values, which would be persisted for every created cached state.
+ * Used on the server to pass rendered state to the client.
+ *
+ * @param options.prefix - collect only keys with this prefix
+ */
+export const collectCachePayload = ({ prefix = '' }: { prefix?: string } = {}): CachePayload => {
+  const payload: CachePayload = {};
+  for (const [key, cache] of registry) {
+    if (key.startsWith(prefix)) {
+      payload[key] = cache.snapshot();
+    }
+  }
+
+  return payload;
+};
+
+/**
+ * Serialize payload to string, which is safe to inline into html `<script>` tag.
+ * Codec must produce JSON.
+ */
+export const serializeCachePayload = (
+  payload: CachePayload = collectCachePayload(),
+  codec: Codec = jsonCodec,
+): string =>
+  codec.encode(payload)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+
+export interface HydrateOptions {
+  /**
+   * Database where values are written for states, which are not created yet.
+   * Must be the same database, which is used by `cache` function.
+   * Values are written as is, so default database uses plain JSON
+   * and ignores `codec`, `compression` and `cipher` options of the cache.
+   * @default injectDb()
+   */
+  db?: ISyncDB;
+
+  /**
+   * Codec used to serialize payload string
+   * @default jsonCodec
+   */
+  codec?: Codec;
+}
+
+/**
+ * Seed storage with payload created on the server, before client reads it,
+ * so the first client render matches server markup.
+ * Only keys missing in the database are seeded, so values persisted on the client are kept.
+ * States which are already created are updated in place.
+ */
+export const hydrateFromPayload = (
+  payload: CachePayload | string,
+  { db, codec = jsonCodec }: HydrateOptions = {},
+): void => {
+  const values = typeof payload === 'string' ? codec.decode<CachePayload>(payload) : payload;
+  for (const [key, stored] of Object.entries(values)) {
+    const cache = registry.get(key);
+    if (cache) {
+      cache.hydrate(stored);
+      continue;
+    }
+
+    db = db ?? injectDb();
+    if (!hasStoredValue(db, key)) {
+      db.set(key, stored);
+    }
+  }
+};
@@ -1,3 +1,18 @@
 export * from './cache';
 export * from './sync-db';
+export * from './cookie-db';
+export * from './file-db';
+export * from './async-db';
+export * from './hydration';
+export * from './codec';
+export * from './compression';
+export * from './cipher';
 export * from './plain-deep-clone';
+export * from './entry';
+export * from './migrate';
+export * from './sync-transport';
+export * from './write-strategy';
+export * from './paths';
+export * from './errors';
+export * from './validate';
+export * from './quota';
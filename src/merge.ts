@@ -1,3 +1,6 @@
+import { isMapLike, isSetLike } from './collections';
+import { isPlainField } from './plain-deep-clone';
+
 /**
  * Update target object with source fields,
  * tailored for valtio
@@ -5,9 +8,28 @@
 export function deepMerge<T>(target: T, source: any): void {
     for (const key in source) {
         const value = source[key];
+        const current = (target as any)[key];
+        if (isMapLike(current) && (isMapLike(value) || Array.isArray(value))) {
+            // Refill collection in place, to keep type and reactivity declared by initial object
+            current.clear();
+            for (const [entryKey, entryValue] of value) {
+                current.set(entryKey, entryValue);
+            }
+            continue;
+        }
+
+        if (isSetLike(current) && (isSetLike(value) || Array.isArray(value))) {
+            current.clear();
+            for (const item of value) {
+                current.add(item);
+            }
+            continue;
+        }
+
         if (
             Array.isArray(value) ||
             typeof value !== 'object' ||
+            value instanceof Date ||
             !(target as any)[key]
         ) {
             (target as any)[key] = value;
@@ -18,3 +40,182 @@ export function deepMerge<T>(target: T, source: any): void {
         deepMerge((target as any)[key], value);
     }
 }
+
+/** Check if value is object, which fields are merged one by one */
+const isMergeableObject = (value: unknown): value is object =>
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !isMapLike(value) &&
+    !isSetLike(value);
+
+/**
+ * Remove plain fields of target, which are not present in source.
+ * Nested objects are pruned recursively, methods and getters are kept.
+ */
+export function pruneFields<T>(target: T, source: any): void {
+    for (const key of Object.keys(target as object)) {
+        if (!isPlainField(target as object, key)) {
+            continue;
+        }
+
+        if (!(key in source)) {
+            delete (target as any)[key];
+            continue;
+        }
+
+        const value = (target as any)[key];
+        if (isMergeableObject(value) && isMergeableObject(source[key])) {
+            pruneFields(value, source[key]);
+        }
+    }
+}
+
+/**
+ * Returns copy of data, which contains only fields present in shape.
+ * Nested objects are picked recursively, arrays and collections are kept as is.
+ */
+export function pickShape<T>(data: T, shape: any): T {
+    if (!isMergeableObject(data) || !isMergeableObject(shape)) {
+        return data;
+    }
+
+    const result: any = {};
+    for (const key of Object.keys(data)) {
+        if (key in shape) {
+            result[key] = pickShape((data as any)[key], (shape as any)[key]);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Returns fields of data, which are not present in shape, with objects leading to them.
+ * Returns undefined when there are no such fields.
+ */
+export function omitShape(data: unknown, shape: unknown): Record<string, unknown> | undefined {
+    if (!isMergeableObject(data) || !isMergeableObject(shape)) {
+        return undefined;
+    }
+
+    let result: Record<string, unknown> | undefined;
+    for (const key of Object.keys(data)) {
+        const value = key in shape
+            ? omitShape((data as any)[key], (shape as any)[key])
+            : (data as any)[key];
+        if (value !== undefined) {
+            result = result || {};
+            result[key] = value;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Add fields returned by `omitShape` back to the data,
+ * fields already present in target are not changed
+ */
+export function mergeOmitted(target: any, omitted: Record<string, unknown>): void {
+    for (const key of Object.keys(omitted)) {
+        if (!(key in target)) {
+            target[key] = omitted[key];
+        } else if (isMergeableObject(target[key]) && isMergeableObject(omitted[key])) {
+            mergeOmitted(target[key], omitted[key] as Record<string, unknown>);
+        }
+    }
+}
+
+/**
+ * How stored array is combined with array of initial object:
+ * - `replace` - stored array is used
+ * - `merge-by-index` - items with the same index are merged, extra items of both arrays are kept
+ * - `{ mergeBy: key }` - items with the same identity key are merged,
+ *   initial items missing in stored array are appended
+ * - `union` - initial items missing in stored array are appended
+ * - `keep-initial` - stored array is ignored
+ */
+export type ArrayStrategy =
+    | 'replace'
+    | 'merge-by-index'
+    | { mergeBy: string }
+    | 'union'
+    | 'keep-initial';
+
+/** Merge stored value over initial one, without mutating them */
+const mergeValues = (initial: unknown, stored: unknown): unknown => {
+    if (stored === undefined) {
+        return initial;
+    }
+
+    if (!isMergeableObject(initial) || !isMergeableObject(stored)) {
+        return stored;
+    }
+
+    const result: any = { ...initial };
+    for (const key of Object.keys(stored)) {
+        result[key] = mergeValues((initial as any)[key], (stored as any)[key]);
+    }
+
+    return result;
+};
+
+/** Key to compare array items by value */
+const itemKey = (item: unknown): unknown =>
+    item !== null && typeof item === 'object' ? `object:${JSON.stringify(item)}` : item;
+
+/**
+ * Combine array of initial object with stored one.
+ * Returns new array, arguments are not mutated.
+ */
+export function mergeArrays(initial: unknown[], stored: unknown[], strategy: ArrayStrategy): unknown[] {
+    if (strategy === 'replace') {
+        return stored;
+    }
+
+    if (strategy === 'keep-initial') {
+        return initial;
+    }
+
+    if (strategy === 'merge-by-index') {
+        const length = Math.max(initial.length, stored.length);
+        return Array.from({ length }, (_, index) => mergeValues(initial[index], stored[index]));
+    }
+
+    if (strategy === 'union') {
+        const storedKeys = new Set(stored.map(itemKey));
+        return [...stored, ...initial.filter(item => !storedKeys.has(itemKey(item)))];
+    }
+
+    const identity = (item: unknown): unknown =>
+        isMergeableObject(item) ? (item as any)[strategy.mergeBy] : undefined;
+    const initialById = new Map<unknown, unknown>();
+    for (const item of initial) {
+        if (identity(item) !== undefined) {
+            initialById.set(identity(item), item);
+        }
+    }
+
+    const storedIds = new Set<unknown>();
+    const result = stored.map((item) => {
+        const id = identity(item);
+        if (id === undefined) {
+            return item;
+        }
+
+        storedIds.add(id);
+        return initialById.has(id) ? mergeValues(initialById.get(id), item) : item;
+    });
+
+    // Items added to initial object after data was stored
+    for (const item of initial) {
+        const id = identity(item);
+        if (id !== undefined && !storedIds.has(id)) {
+            result.push(item);
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,31 @@
+/**
+ * Function which upgrades stored data by one schema version
+ */
+export type Migration = (data: any) => any;
+
+/**
+ * Chain of migrations, where `migrations[n]` upgrades data from version `n - 1` to version `n`.
+ * Versions without migration are considered compatible with previous version.
+ */
+export type Migrations = Record<number, Migration>;
+
+/**
+ * Upgrade data from one schema version to another,
+ * by sequentially applying every migration in between.
+ */
+export function runMigrations<T = any>(
+  data: any,
+  fromVersion: number,
+  toVersion: number,
+  migrations: Migrations = {},
+): T {
+  let result = data;
+  for (let version = fromVersion + 1; version <= toVersion; version++) {
+    const migration = migrations[version];
+    if (migration) {
+      result = migration(result);
+    }
+  }
+
+  return result;
+}
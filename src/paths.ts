@@ -0,0 +1,120 @@
+/**
+ * Path to a nested state field,
+ * either dotted string like `'ui.sidebarOpen'` or array of keys like `['ui', 'sidebarOpen']`
+ */
+export type Path = string | (string | number)[];
+
+/** Convert path to array of keys */
+export const toKeys = (path: Path): string[] =>
+  Array.isArray(path) ? path.map(String) : path.split('.');
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object';
+
+/** Get nested field value, returns undefined if path not exists */
+export const getPath = (data: unknown, path: Path): unknown => {
+  let current: any = data;
+  for (const key of toKeys(path)) {
+    if (!isObject(current) || !(key in current)) {
+      return undefined;
+    }
+    current = current[key];
+  }
+
+  return current;
+};
+
+/** Check if nested field exists */
+export const hasPath = (data: unknown, path: Path): boolean => {
+  const keys = toKeys(path);
+  const parent = getPath(data, keys.slice(0, -1));
+  return isObject(parent) && keys[keys.length - 1] in parent;
+};
+
+/**
+ * Check if one path is a prefix of another,
+ * which means change of one field changes another
+ */
+export const pathsOverlap = (a: readonly (string | symbol)[], b: readonly (string | symbol)[]): boolean => {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Returns copy of data without nested field.
+ * Only objects on the path are copied, data itself is not mutated.
+ */
+export const omitPath = <T>(data: T, path: Path): T => {
+  const [key, ...rest] = toKeys(path);
+  if (!isObject(data) || !(key in data)) {
+    return data;
+  }
+
+  const copy: any = Array.isArray(data) ? [...data] : { ...data };
+  if (rest.length) {
+    copy[key] = omitPath(copy[key], rest);
+  } else {
+    delete copy[key];
+  }
+
+  return copy;
+};
+
+/**
+ * Returns copy of data with changed nested field.
+ * Only objects on the path are copied, data itself is not mutated.
+ */
+export const setPath = <T>(data: T, path: Path, value: unknown): T => {
+  const [key, ...rest] = toKeys(path);
+  const copy: any = Array.isArray(data) ? [...data] : { ...data };
+  copy[key] = rest.length ? setPath(isObject(copy[key]) ? copy[key] : {}, rest, value) : value;
+  return copy;
+};
+
+/**
+ * Returns new object, which contains only listed nested fields of data.
+ */
+export const pickPaths = <T>(data: T, paths: Path[]): T => {
+  if (!isObject(data)) {
+    return data;
+  }
+
+  const result: any = {};
+  for (const path of paths) {
+    if (!hasPath(data, path)) {
+      continue;
+    }
+
+    const keys = toKeys(path);
+    let target = result;
+    for (const key of keys.slice(0, -1)) {
+      // Copy objects picked by previous paths, to not mutate data
+      const value = target[key];
+      target[key] = isObject(value) ? (Array.isArray(value) ? [...value] : { ...value }) : {};
+      target = target[key];
+    }
+    target[keys[keys.length - 1]] = getPath(data, keys);
+  }
+
+  return result;
+};
+
+/**
+ * Filter data by lists of included and excluded paths.
+ * When include list is given, only listed fields are kept,
+ * after that every excluded field is removed.
+ */
+export const filterPaths = <T>(data: T, { include, exclude }: { include?: Path[]; exclude?: Path[] }): T => {
+  let result = include ? pickPaths(data, include) : data;
+  for (const path of exclude || []) {
+    result = omitPath(result, path);
+  }
+
+  return result;
+};
@@ -1,3 +1,5 @@
+import { isMapLike, isSetLike } from './collections';
+
 /**
  * Deep clone object without methods, getter and setters,
  * Specifically tailored deep clone implementation for valtio proxy.
@@ -11,27 +13,40 @@ export function plainDeepClone<T extends object>(target: T): T {
 
   const result: any = {};
   for (const key of keys) {
-    const value = (target as any)[key];
-    if (Array.isArray(value)) {
-      // Clone arrays by creating new array and recursively cloning elements
-      result[key] = value.map(item => 
-        item && typeof item === 'object' ? plainDeepClone(item) : item
-      );
-      continue;
-    }
-    
-    if (typeof value !== 'object' || value === null) {
-      result[key] = value;
-      continue;
-    }
-
-    // value is object
-    result[key] = plainDeepClone(value);
+    result[key] = cloneValue((target as any)[key]);
   }
 
   return result;
 }
 
+/** Clone field value or array item */
+const cloneValue = (value: any): any => {
+  if (Array.isArray(value)) {
+    // Clone arrays by creating new array and recursively cloning elements
+    return value.map(cloneValue);
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  if (value instanceof Date) {
+    return new Date(value.getTime());
+  }
+
+  // Both native and valtio collections are cloned to native ones
+  if (isMapLike(value)) {
+    return new Map([...value.entries()].map(([key, item]) => [key, cloneValue(item)]));
+  }
+
+  if (isSetLike(value)) {
+    return new Set([...value.values()].map(cloneValue));
+  }
+
+  // value is object
+  return plainDeepClone(value);
+};
+
 /**
  * Determine if object field is simple field,
  * in other terms not a method, getter or setter
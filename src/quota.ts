@@ -0,0 +1,51 @@
+/**
+ * What to do when storage quota is exceeded on write:
+ * - `drop` - skip the write
+ * - `evict-lru` - remove least recently used keys under the same prefix, until the write fits
+ * - `trim-low-priority` - same as `evict-lru`, but remove only keys marked as low priority
+ */
+export type QuotaPolicy = 'drop' | 'evict-lru' | 'trim-low-priority';
+
+/**
+ * Details of write which exceeded storage quota
+ */
+export interface QuotaExceededInfo {
+  /** Key of the written value */
+  key: string;
+  /** Original quota error */
+  error: unknown;
+  /** Keys removed to free space for the write */
+  evicted: string[];
+  /** If false, the write was dropped and data is not saved */
+  saved: boolean;
+}
+
+/** Check if error thrown by `Storage.setItem` is caused by exceeded quota */
+export const isQuotaExceededError = (error: unknown): boolean => {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const { name, code } = error as { name?: string; code?: number };
+  return (
+    name === 'QuotaExceededError' ||
+    // Firefox
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    // Legacy browsers, which report only error code
+    code === 22 ||
+    code === 1014
+  );
+};
+
+/**
+ * Prefix of key up to the last slash,
+ * for example `valtio/v1.0/` for `valtio/v1.0/settings`
+ */
+export const keyPrefix = (key: string): string =>
+  key.slice(0, key.lastIndexOf('/') + 1);
+
+export const warnQuotaExceeded = ({ key, saved }: QuotaExceededInfo) => {
+  if (!saved) {
+    console.warn(`Storage quota exceeded, "${key}" is not saved`);
+  }
+};
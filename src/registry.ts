@@ -0,0 +1,28 @@
+/**
+ * Hooks of cached proxy, used by functions which work with every cached state
+ */
+export interface RegisteredCache {
+  /** Value which would be written to storage for the current state */
+  snapshot(): unknown;
+  /** Write stored value to the database of the cache and apply it to the state, unless value is already stored */
+  hydrate(stored: unknown): void;
+  /** Restore initial state and remove stored value */
+  reset(): void;
+}
+
+/** Created cached proxies, by full storage key */
+export const registry = new Map<string, RegisteredCache>();
+
+/**
+ * Register cached proxy under the storage key,
+ * replaces proxy created earlier with the same key.
+ * Returns function which removes registration.
+ */
+export const registerCache = (key: string, cache: RegisteredCache): () => void => {
+  registry.set(key, cache);
+  return () => {
+    if (registry.get(key) === cache) {
+      registry.delete(key);
+    }
+  };
+};
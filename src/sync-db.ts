@@ -1,44 +1,369 @@
+import { Codec, jsonCodec } from './codec';
+import { Compressor, compressValue, decompressValue } from './compression';
+import { CorruptedEntryError } from './errors';
+import { QuotaExceededInfo, QuotaPolicy, isQuotaExceededError, keyPrefix, warnQuotaExceeded } from './quota';
+
 export const isOnServer = () =>
   typeof window === 'undefined';
 
 /** Inject db instance if possible, otherwise return empty db */
-export const injectDb = () => {
+export const injectDb = (options: LocalStorageDBOptions = {}) => {
   if (isOnServer()) {
     console.debug('Ignore server side persistance by default, avoid window related erros')
     return new DumbDb();
   }
 
-  return new LocalStorageDB();
+  return new LocalStorageDB(localStorage, options);
 };
 
+/**
+ * Synchronous key-value database.
+ * Optional operations can be missing in custom databases,
+ * features which depend on them are skipped in that case.
+ */
 export interface ISyncDB {
   get<T = string>(key: string): T | null;
   set<T = string>(key: string, value: T): void;
+  /** Delete stored value, used to remove expired, corrupted and reset values */
+  remove?(key: string): void;
+  /** List stored keys, which start with prefix, used by `clearCaches` when `clear` is missing */
+  keys?(prefix?: string): string[];
+  /** Delete every stored value, which key starts with prefix, used by `clearCaches` */
+  clear?(prefix?: string): void;
 }
 
+/**
+ * Delete every stored value, which key starts with prefix,
+ * using operations supported by database.
+ * Does nothing if database can neither clear nor list keys.
+ */
+export const clearDb = (db: ISyncDB, prefix = ''): void => {
+  if (db.clear) {
+    db.clear(prefix);
+    return;
+  }
+
+  if (db.remove) {
+    for (const key of db.keys?.(prefix) ?? []) {
+      db.remove(key);
+    }
+  }
+};
+
+/**
+ * Check if value is stored under the key.
+ * Corrupted values are reported as missing, as they cannot be read anyway.
+ */
+export const hasStoredValue = (db: ISyncDB, key: string): boolean => {
+  try {
+    return db.get(key) !== null;
+  } catch (error) {
+    if (error instanceof CorruptedEntryError) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+export interface LocalStorageDBOptions {
+  /**
+   * Serialization of stored values
+   * @default jsonCodec
+   */
+  codec?: Codec;
+
+  /**
+   * Compression of serialized values, applied before writing to storage.
+   * Values stored without compression are still readable.
+   * @example lzCompressor
+   */
+  compression?: Compressor;
+
+  /**
+   * Minimal length of serialized value to compress,
+   * shorter values are stored as is
+   * @default 1024
+   */
+  compressionThreshold?: number;
+
+  /**
+   * What to do when storage quota is exceeded on write
+   * @default 'drop'
+   */
+  quotaPolicy?: QuotaPolicy;
+
+  /**
+   * Only keys with this prefix can be evicted to free space.
+   * By default, prefix of written key up to the last slash is used,
+   * for example `valtio/v1.0/` for `valtio/v1.0/settings`.
+   */
+  evictionPrefix?: string;
+
+  /**
+   * Marks keys which can be removed by `trim-low-priority` quota policy
+   */
+  isLowPriority?: (key: string) => boolean;
+
+  /**
+   * Called when write exceeded storage quota, after quota policy is applied.
+   * By default, logs warning when data is not saved.
+   */
+  onQuotaExceeded?: (info: QuotaExceededInfo) => void;
+}
+
+/**
+ * Logical time of the last access, by key, used to find least recently used keys.
+ * Shared by every database of the same storage, as each cache creates own instance.
+ */
+const accessTimesByStorage = new WeakMap<Storage, Map<string, number>>();
+let accessClock = 0;
+
+const getAccessTimes = (storage: Storage): Map<string, number> => {
+  let accessTimes = accessTimesByStorage.get(storage);
+  if (!accessTimes) {
+    accessTimes = new Map();
+    accessTimesByStorage.set(storage, accessTimes);
+  }
+
+  return accessTimes;
+};
+
 /**
  * Simple synchronous key-value database
  * Wrapper around local storge
- * Adds namespaces and JSON serialisation support
+ * Adds namespaces, serialisation and storage quota handling support
  */
 export class LocalStorageDB implements ISyncDB {
+  private codec: Codec;
+  private compression?: Compressor;
+  private compressionThreshold: number;
+  private quotaPolicy: QuotaPolicy;
+  private evictionPrefix?: string;
+  private isLowPriority: (key: string) => boolean;
+  private onQuotaExceeded: (info: QuotaExceededInfo) => void;
+  private accessTimes: Map<string, number>;
 
-  constructor(private storage: Storage = localStorage) {}
+  constructor(
+    private storage: Storage = localStorage,
+    {
+      codec = jsonCodec,
+      compression,
+      compressionThreshold = 1024,
+      quotaPolicy = 'drop',
+      evictionPrefix,
+      isLowPriority = () => false,
+      onQuotaExceeded = warnQuotaExceeded,
+    }: LocalStorageDBOptions = {},
+  ) {
+    this.codec = codec;
+    this.compression = compression;
+    this.compressionThreshold = compressionThreshold;
+    this.quotaPolicy = quotaPolicy;
+    this.evictionPrefix = evictionPrefix;
+    this.isLowPriority = isLowPriority;
+    this.onQuotaExceeded = onQuotaExceeded;
+    this.accessTimes = getAccessTimes(storage);
+  }
 
   get<T = string>(key: string): T | null {
+    this.accessTimes.set(key, ++accessClock);
     const value = this.storage.getItem(key);
     if (!value) {
       return value as null;
     }
 
-    return JSON.parse(value) as T;
+    try {
+      return this.codec.decode<T>(this.decompress(value));
+    } catch (error) {
+      throw new CorruptedEntryError(key, value, error);
+    }
   }
 
   set<T = string>(key: string,value: T): void {
-    const serialized: string =
-      typeof value !== 'string' ? JSON.stringify(value) : value;
+    this.accessTimes.set(key, ++accessClock);
+    const serialized = this.compress(this.codec.encode(value));
+
+    const evicted: string[] = [];
+    let quotaError: unknown;
+    for (;;) {
+      try {
+        this.storage.setItem(key, serialized);
+        break;
+      } catch (error) {
+        if (!isQuotaExceededError(error)) {
+          throw error;
+        }
 
-      this.storage.setItem(key, serialized);
+        quotaError = quotaError ?? error;
+        const candidate = this.findEvictionCandidate(key);
+        if (candidate === undefined) {
+          // Do not throw, writes usually happen inside valtio subscribe callback
+          this.onQuotaExceeded({ key, error: quotaError, evicted, saved: false });
+          return;
+        }
+
+        this.remove(candidate);
+        evicted.push(candidate);
+      }
+    }
+
+    if (quotaError) {
+      this.onQuotaExceeded({ key, error: quotaError, evicted, saved: true });
+    }
+  }
+
+  remove(key: string): void {
+    this.accessTimes.delete(key);
+    this.storage.removeItem(key);
+  }
+
+  keys(prefix = ''): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key !== null && key.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+
+    return keys;
+  }
+
+  clear(prefix = ''): void {
+    // Collect keys first, because removal shifts storage indexes
+    this.keys(prefix).forEach(key => this.remove(key));
+  }
+
+  private compress(serialized: string): string {
+    return this.compression ? compressValue(serialized, this.compression, this.compressionThreshold) : serialized;
+  }
+
+  private decompress(value: string): string {
+    return this.compression ? decompressValue(value, this.compression) : value;
+  }
+
+  /** Least recently used key which can be removed by quota policy */
+  private findEvictionCandidate(writtenKey: string): string | undefined {
+    if (this.quotaPolicy === 'drop') {
+      return;
+    }
+
+    const prefix = this.evictionPrefix ?? keyPrefix(writtenKey);
+    if (!prefix) {
+      // Never evict keys of other applications
+      return;
+    }
+
+    let candidate: string | undefined;
+    let candidateTime = Infinity;
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (
+        key === null ||
+        key === writtenKey ||
+        !key.startsWith(prefix) ||
+        (this.quotaPolicy === 'trim-low-priority' && !this.isLowPriority(key))
+      ) {
+        continue;
+      }
+
+      // Keys not accessed since page load are the oldest
+      const time = this.accessTimes.get(key) ?? 0;
+      if (time < candidateTime) {
+        candidate = key;
+        candidateTime = time;
+      }
+    }
+
+    return candidate;
+  }
+}
+
+/**
+ * Local storage database, which keeps data only until the browser tab is closed
+ */
+export class SessionStorageDB extends LocalStorageDB {
+  constructor(options: LocalStorageDBOptions = {}) {
+    super(sessionStorage, options);
+  }
+}
+
+/**
+ * Database which keeps values in memory.
+ * Values are serialized on write, like in real storage,
+ * so stored data is not affected by later state changes.
+ * Useful for tests and server side rendering.
+ */
+export class MemoryDB implements ISyncDB {
+  private values = new Map<string, string>();
+
+  constructor(
+    initial: Record<string, unknown> = {},
+    private codec: Codec = jsonCodec,
+  ) {
+    this.restore(initial);
+  }
+
+  get<T = string>(key: string): T | null {
+    const value = this.values.get(key);
+    if (value === undefined) {
+      return null;
+    }
+
+    try {
+      return this.codec.decode<T>(value);
+    } catch (error) {
+      throw new CorruptedEntryError(key, value, error);
+    }
+  }
+
+  set<T = string>(key: string, value: T): void {
+    this.values.set(key, this.codec.encode(value));
+  }
+
+  remove(key: string): void {
+    this.values.delete(key);
+  }
+
+  keys(prefix = ''): string[] {
+    return [...this.values.keys()].filter(key => key.startsWith(prefix));
+  }
+
+  clear(prefix = ''): void {
+    this.keys(prefix).forEach(key => this.values.delete(key));
+  }
+
+  /** Check if value is stored under the key */
+  has(key: string): boolean {
+    return this.values.has(key);
+  }
+
+  /** Number of stored values */
+  get size(): number {
+    return this.values.size;
+  }
+
+  /** Serialized value as it would be written to real storage */
+  raw(key: string): string | null {
+    return this.values.get(key) ?? null;
+  }
+
+  /** Decoded copy of all stored values, by key */
+  snapshot(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const key of this.values.keys()) {
+      result[key] = this.get(key);
+    }
+
+    return result;
+  }
+
+  /** Replace all stored values, for example by previously taken snapshot */
+  restore(snapshot: Record<string, unknown>): void {
+    this.values.clear();
+    for (const [key, value] of Object.entries(snapshot)) {
+      this.set(key, value);
+    }
   }
 }
 
@@ -51,4 +376,16 @@ export class DumbDb implements ISyncDB {
   set(): void {
     return;
   }
+
+  remove(): void {
+    return;
+  }
+
+  keys(): string[] {
+    return [];
+  }
+
+  clear(): void {
+    return;
+  }
 }
\ No newline at end of file
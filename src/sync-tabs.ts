@@ -0,0 +1,23 @@
+import { isOnServer } from './sync-db';
+
+/**
+ * Listen for changes of storage key made by other tabs of the same origin.
+ * Browser fires storage event only in other documents,
+ * so writes of current tab never trigger the callback.
+ * @returns function to stop listening
+ */
+export const listenStorageKey = (key: string, onChange: () => void): (() => void) => {
+  if (isOnServer()) {
+    return () => {};
+  }
+
+  const listener = (event: StorageEvent) => {
+    // Key is null when other tab cleared whole storage
+    if (event.key === key || event.key === null) {
+      onChange();
+    }
+  };
+
+  window.addEventListener('storage', listener);
+  return () => window.removeEventListener('storage', listener);
+};
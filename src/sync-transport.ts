@@ -0,0 +1,209 @@
+import type { subscribe } from 'valtio';
+
+import { isMapLike, isSetLike } from './collections';
+import { getPath } from './paths';
+import { plainDeepClone } from './plain-deep-clone';
+
+/** Operation reported by valtio subscribe callback */
+export type ValtioOp = Parameters<Parameters<typeof subscribe>[1]>[0][number];
+
+/**
+ * Serializable change of state field.
+ * Path contains keys from root of the state to changed field.
+ * Maps and sets are sent whole, as arrays of entries or values.
+ */
+export type SyncOp =
+  | ['set', string[], unknown]
+  | ['delete', string[]];
+
+/**
+ * Message with changes of cached state, sent between peers
+ */
+export interface SyncMessage {
+  /** Full storage key of the changed state */
+  key: string;
+  ops: SyncOp[];
+}
+
+/**
+ * Transport which delivers state changes to other peers,
+ * like browser tabs, workers or iframes.
+ * Messages must not be delivered back to the sender.
+ */
+export interface ISyncTransport {
+  /** Send message to every other peer */
+  post(message: SyncMessage): void;
+  /**
+   * Listen for messages of other peers
+   * @returns function to stop listening
+   */
+  listen(listener: (message: SyncMessage) => void): () => void;
+}
+
+/**
+ * Transport over BroadcastChannel,
+ * connects every tab, worker and iframe of the same origin
+ * that use the same channel name.
+ */
+export class BroadcastChannelTransport implements ISyncTransport {
+  private channel: BroadcastChannel;
+
+  constructor(name: string = 'valtio-cache') {
+    this.channel = new BroadcastChannel(name);
+  }
+
+  post(message: SyncMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  listen(listener: (message: SyncMessage) => void): () => void {
+    const handler = (event: MessageEvent<SyncMessage>) => listener(event.data);
+    this.channel.addEventListener('message', handler);
+    return () => this.channel.removeEventListener('message', handler);
+  }
+
+  /** Close underlying channel, transport cannot be used after that */
+  close(): void {
+    this.channel.close();
+  }
+}
+
+/**
+ * In-memory replacement of BroadcastChannel, usually used in tests.
+ * Synchronously delivers copy of message to every other transport created by the channel.
+ */
+export class MemoryChannel {
+  private listeners = new Set<{ listener: (message: SyncMessage) => void; transport: ISyncTransport }>();
+
+  /** Create new peer connected to the channel */
+  createTransport(): ISyncTransport {
+    const transport: ISyncTransport = {
+      post: (message) => {
+        for (const subscription of [...this.listeners]) {
+          if (subscription.transport !== transport) {
+            subscription.listener(structuredClone(message));
+          }
+        }
+      },
+      listen: (listener) => {
+        const subscription = { listener, transport };
+        this.listeners.add(subscription);
+        return () => this.listeners.delete(subscription);
+      },
+    };
+
+    return transport;
+  }
+}
+
+/**
+ * Path to Map or Set, which contains changed field or is changed itself.
+ * Returns null if path does not cross collections.
+ */
+export const getCollectionPath = (state: object, path: ValtioOp[1]): string[] | null => {
+  let value: any = state;
+  for (let i = 0; i <= path.length; i++) {
+    if (isMapLike(value) || isSetLike(value)) {
+      return path.slice(0, i) as string[];
+    }
+    if (!value || typeof value !== 'object' || i === path.length) {
+      return null;
+    }
+    value = value[path[i]];
+  }
+
+  return null;
+};
+
+/**
+ * Convert valtio operations to serializable ones.
+ * Operations on symbol keys and methods are skipped, as they are not part of persisted state.
+ * Operations inside of maps and sets report valtio internals,
+ * so whole collection is sent instead.
+ * Collections are read from the state, so they must not be in the middle of the operation.
+ */
+export const toSyncOps = (state: object, ops: ValtioOp[]): SyncOp[] => {
+  const result: SyncOp[] = [];
+  const sentCollections = new Set<string>();
+  for (const op of ops) {
+    const path = op[1];
+    if (path.some(key => typeof key === 'symbol')) {
+      continue;
+    }
+
+    const collectionPath = getCollectionPath(state, path);
+    if (collectionPath) {
+      const id = JSON.stringify(collectionPath);
+      if (!sentCollections.has(id)) {
+        sentCollections.add(id);
+        const collection = getPath(state, collectionPath) as Iterable<unknown>;
+        // Current content is sent, so one message is enough for all changes of collection
+        result.push(['set', collectionPath, [...plainDeepClone({ collection }).collection]]);
+      }
+      continue;
+    }
+
+    if (op[0] === 'delete') {
+      result.push(['delete', path as string[]]);
+      continue;
+    }
+
+    const value = op[2];
+    if (typeof value === 'function') {
+      continue;
+    }
+
+    // Wrap value to clone arrays and objects uniformly
+    result.push(['set', path as string[], plainDeepClone({ value }).value]);
+  }
+
+  return result;
+};
+
+/**
+ * Apply serializable operations to the state.
+ * Operations on not existing paths are skipped.
+ * Maps and sets are refilled in place, to keep their reactivity.
+ */
+export const applySyncOps = (state: object, ops: SyncOp[]): void => {
+  for (const op of ops) {
+    const path = op[1];
+    let target: any = state;
+    for (const key of path.slice(0, -1)) {
+      target = target[key];
+      if (!target || typeof target !== 'object') {
+        break;
+      }
+    }
+
+    if (!target || typeof target !== 'object') {
+      continue;
+    }
+
+    const field = path[path.length - 1];
+    if (op[0] === 'delete') {
+      delete target[field];
+      continue;
+    }
+
+    const current = target[field];
+    const value = op[2];
+    if (isMapLike(current) && Array.isArray(value)) {
+      current.clear();
+      for (const [key, item] of value) {
+        current.set(key, item);
+      }
+      continue;
+    }
+
+    if (isSetLike(current) && Array.isArray(value)) {
+      current.clear();
+      for (const item of value) {
+        current.add(item);
+      }
+      continue;
+    }
+
+    target[field] = value;
+  }
+};
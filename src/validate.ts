@@ -0,0 +1,46 @@
+/**
+ * Function which checks if data has expected type
+ */
+export type TypeGuard = (data: unknown) => boolean;
+
+/**
+ * Schema with zod or valibot style `safeParse` method
+ */
+export interface SchemaAdapter {
+  safeParse(data: unknown): { success: boolean; data?: unknown; error?: unknown };
+}
+
+export type Validator = TypeGuard | SchemaAdapter;
+
+/**
+ * Validators of individual fields, by dotted field path
+ */
+export type FieldValidators = Record<string, Validator>;
+
+export type ValidationResult =
+  | { success: true; data: unknown }
+  | { success: false; error?: unknown };
+
+const isSchemaAdapter = (value: unknown): value is SchemaAdapter =>
+  !!value && typeof (value as SchemaAdapter).safeParse === 'function';
+
+/** Check if value is single validator, not validators of fields */
+export const isValidator = (value: Validator | FieldValidators): value is Validator =>
+  typeof value === 'function' || isSchemaAdapter(value);
+
+/**
+ * Validate data, schema can also transform it,
+ * for example strip unknown fields
+ */
+export const runValidator = (validator: Validator, data: unknown): ValidationResult => {
+  if (!isSchemaAdapter(validator)) {
+    return validator(data) ? { success: true, data } : { success: false };
+  }
+
+  const result = validator.safeParse(data);
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  return { success: true, data: 'data' in result ? result.data : data };
+};
@@ -0,0 +1,166 @@
+import { isOnServer } from './sync-db';
+
+/**
+ * Controls when requested writes are performed
+ */
+export interface WriteScheduler {
+  /** Request write, can be called many times before write is performed */
+  schedule(): void;
+  /** Perform pending write immediately, if there is one */
+  flush(): void;
+  /** Drop pending write */
+  cancel(): void;
+}
+
+/**
+ * Creates scheduler of writes for a cached state
+ * @param write - function which serializes state and saves it to storage
+ */
+export type WriteStrategy = (write: () => void) => WriteScheduler;
+
+/** Write on every batch of state changes */
+export const immediateWrites: WriteStrategy = (write) => ({
+  schedule: write,
+  flush: () => {},
+  cancel: () => {},
+});
+
+/**
+ * Write once state stops changing for the given time
+ * @param ms - time without changes before write
+ */
+export const debounceWrites = (ms: number): WriteStrategy => (write) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const cancel = () => {
+    clearTimeout(timer);
+    timer = undefined;
+  };
+
+  const flush = () => {
+    if (timer === undefined) {
+      return;
+    }
+
+    cancel();
+    write();
+  };
+
+  return {
+    schedule: () => {
+      cancel();
+      timer = setTimeout(flush, ms);
+    },
+    flush,
+    cancel,
+  };
+};
+
+/**
+ * Write at most once per given time,
+ * first change is written immediately and the last one at the end of period
+ * @param ms - minimal time between writes
+ */
+export const throttleWrites = (ms: number): WriteStrategy => (write) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let isPending = false;
+
+  const startPeriod = () => {
+    timer = setTimeout(() => {
+      timer = undefined;
+      if (isPending) {
+        isPending = false;
+        write();
+        startPeriod();
+      }
+    }, ms);
+  };
+
+  return {
+    schedule: () => {
+      if (timer !== undefined) {
+        isPending = true;
+        return;
+      }
+
+      write();
+      startPeriod();
+    },
+    flush: () => {
+      if (!isPending) {
+        return;
+      }
+
+      isPending = false;
+      write();
+    },
+    cancel: () => {
+      isPending = false;
+    },
+  };
+};
+
+/**
+ * Write when browser is idle, or after timeout at the latest.
+ * Falls back to the timeout when `requestIdleCallback` is not supported.
+ * @param timeout - maximum time before write
+ */
+export const idleWrites = (timeout: number = 1000): WriteStrategy => (write) => {
+  const hasIdleCallback = typeof requestIdleCallback === 'function';
+  let handle: number | ReturnType<typeof setTimeout> | undefined;
+
+  const cancel = () => {
+    if (handle === undefined) {
+      return;
+    }
+
+    if (hasIdleCallback) {
+      cancelIdleCallback(handle as number);
+    } else {
+      clearTimeout(handle);
+    }
+    handle = undefined;
+  };
+
+  const flush = () => {
+    if (handle === undefined) {
+      return;
+    }
+
+    cancel();
+    write();
+  };
+
+  return {
+    schedule: () => {
+      if (handle !== undefined) {
+        return;
+      }
+
+      handle = hasIdleCallback
+        ? requestIdleCallback(flush, { timeout })
+        : setTimeout(flush, timeout);
+    },
+    flush,
+    cancel,
+  };
+};
+
+/**
+ * Call function when user leaves the page,
+ * last chance to save pending changes.
+ * @returns function to stop listening
+ */
+export const listenPageExit = (onExit: () => void): (() => void) => {
+  if (isOnServer()) {
+    return () => {};
+  }
+
+  const listener = () => onExit();
+  window.addEventListener('pagehide', listener);
+  window.addEventListener('beforeunload', listener);
+  return () => {
+    window.removeEventListener('pagehide', listener);
+    window.removeEventListener('beforeunload', listener);
+  };
+};